@@ -146,7 +146,7 @@ const enterpriseMiddleware = t.middleware(async (opts) => {
 export const enterpriseUserRouter = t.router({
     // User authentication with comprehensive logging
     authenticate: procedure
-        .withLogger('user.authenticate')
+        .withLogger()
         .use(enterpriseMiddleware)
         .input(z.object({
             email: z.string().email(),
@@ -201,7 +201,7 @@ export const enterpriseUserRouter = t.router({
 
     // User profile management with performance monitoring
     updateProfile: procedure
-        .withLogger('user.updateProfile')
+        .withLogger()
         .use(enterpriseMiddleware)
         .input(z.object({
             userId: z.string(),
@@ -252,7 +252,7 @@ export const enterpriseUserRouter = t.router({
 
     // User search with rate limiting and performance monitoring
     searchUsers: procedure
-        .withLogger('user.searchUsers')
+        .withLogger()
         .use(enterpriseMiddleware)
         .input(z.object({
             query: z.string().min(1),
@@ -299,7 +299,7 @@ export const enterpriseUserRouter = t.router({
 
     // Bulk operations with comprehensive logging
     bulkUpdateUsers: procedure
-        .withLogger('user.bulkUpdateUsers')
+        .withLogger()
         .use(enterpriseMiddleware)
         .input(z.object({
             userIds: z.array(z.string()),
@@ -0,0 +1,95 @@
+import {
+    loggedProcedure,
+    createLogger,
+    getLogger,
+    getRequestContext,
+    runWithRequestContext,
+    setFallbackLogger,
+    type Logger
+} from '../index';
+import { initTRPC } from '@trpc/server';
+
+describe('Request context', () => {
+    const t = initTRPC.context<{ logger?: Logger }>().create();
+    let transport: jest.Mock;
+
+    // Stands in for a service layer that never receives ctx
+    const userService = {
+        load: async (id: string) => {
+            await Promise.resolve();
+            getLogger().info('Loading user', { id });
+
+            await new Promise(resolve => setTimeout(resolve, 1));
+            getLogger().debug('Loaded user', { id });
+
+            return Promise.resolve(id)
+                .then(value => {
+                    getLogger().info('Chained', { value });
+                    return getRequestContext();
+                });
+        }
+    };
+
+    beforeEach(() => {
+        transport = jest.fn();
+    });
+
+    afterEach(() => {
+        setFallbackLogger(createLogger({ pipelines: [] }));
+    });
+
+    it('should expose the procedure logger across awaits, timers and promise chains', async () => {
+        const procedure = loggedProcedure(t.procedure, {
+            pipelines: [{ name: 'test', level: 'debug', transport }]
+        });
+        const router = t.router({
+            get: procedure.withLogger('user.get').query(() => userService.load('u1'))
+        });
+
+        const context = await t.createCallerFactory(router)({}).get();
+
+        expect(transport.mock.calls.map(call => call[1])).toEqual([
+            '[INFO] [user.get] Loading user',
+            '[DEBUG] [user.get] Loaded user',
+            '[INFO] [user.get] Chained'
+        ]);
+        expect(context).toEqual(expect.objectContaining({ name: 'user.get', path: 'get', type: 'query' }));
+    });
+
+    it('should keep concurrent requests apart', async () => {
+        const procedure = loggedProcedure(t.procedure, {
+            pipelines: [{ name: 'test', level: 'debug', transport }]
+        });
+        const router = t.router({
+            a: procedure.withLogger('a').query(() => userService.load('a')),
+            b: procedure.withLogger('b').query(() => userService.load('b'))
+        });
+        const caller = t.createCallerFactory(router)({});
+
+        await Promise.all([caller.a(), caller.b()]);
+
+        for (const [name, , meta] of transport.mock.calls) {
+            expect(meta.id ?? meta.value).toBe(name);
+        }
+    });
+
+    it('should return the fallback logger outside of a request', () => {
+        expect(getRequestContext()).toBeUndefined();
+        expect(() => getLogger().info('ignored')).not.toThrow();
+
+        setFallbackLogger(createLogger({ pipelines: [{ name: 'test', transport }] }, 'background'));
+        getLogger().info('Outside request');
+
+        expect(transport).toHaveBeenCalledWith('background', '[INFO] [background] Outside request', undefined);
+    });
+
+    it('should run functions with an explicit context', () => {
+        const logger = createLogger({ pipelines: [{ name: 'test', transport }] }, 'job');
+
+        runWithRequestContext({ logger, name: 'job' }, () => {
+            getLogger().info('In job');
+        });
+
+        expect(transport).toHaveBeenCalledWith('job', '[INFO] [job] In job', undefined);
+    });
+});
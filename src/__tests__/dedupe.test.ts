@@ -0,0 +1,96 @@
+import { createLogger, createDeduper, defineTransport, type LogRecord, type PipelineConfig } from '../index';
+import { validatePipeline } from '../validation';
+
+describe('Dedupe', () => {
+    let records: LogRecord[];
+    let config: PipelineConfig;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        records = [];
+        config = {
+            pipelines: [{
+                name: 'dedupe',
+                dedupe: { windowMs: 1000, keys: ['path'] },
+                transport: defineTransport(record => { records.push(record); })
+            }]
+        };
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('should collapse identical records into a summary when the window closes', () => {
+        const logger = createLogger(config, 'errors');
+
+        for (let i = 0; i < 5; i++) {
+            logger.error('Procedure error', { path: 'user.get', attempt: i });
+        }
+        expect(records).toHaveLength(1);
+
+        jest.advanceTimersByTime(1000);
+
+        expect(records).toHaveLength(2);
+        expect(records[1].repeated).toBe(4);
+        expect(records[1].meta).toEqual({ path: 'user.get', attempt: 4, repeated: 4 });
+    });
+
+    it('should keep records with different identities apart', () => {
+        const logger = createLogger(config, 'errors');
+
+        logger.error('Procedure error', { path: 'user.get' });
+        logger.error('Procedure error', { path: 'user.list' });
+        logger.warn('Procedure error', { path: 'user.get' });
+        createLogger(config, 'other').error('Procedure error', { path: 'user.get' });
+
+        expect(records).toHaveLength(4);
+    });
+
+    it('should not emit a summary when nothing was collapsed', () => {
+        createLogger(config, 'errors').error('Once');
+
+        jest.advanceTimersByTime(1000);
+
+        expect(records).toHaveLength(1);
+    });
+
+    it('should start a new window after the previous one closes', () => {
+        const logger = createLogger(config, 'errors');
+
+        logger.error('Procedure error');
+        jest.advanceTimersByTime(1000);
+        logger.error('Procedure error');
+
+        expect(records).toHaveLength(2);
+        expect(records[1].repeated).toBeUndefined();
+    });
+
+    it('should pass a burst of records before collapsing', () => {
+        const emitted: LogRecord[] = [];
+        const deduper = createDeduper({ burst: 3 }, record => emitted.push(record));
+        const record: LogRecord = { level: 'error', severity: 50, timestamp: new Date(), message: 'failed' };
+
+        const passed = [1, 2, 3, 4, 5].map(() => deduper.check(record));
+        deduper.flush();
+
+        expect(passed).toEqual([true, true, true, false, false]);
+        expect(emitted).toEqual([expect.objectContaining({ repeated: 2 })]);
+    });
+
+    it('should stop tracking identities beyond maxKeys', () => {
+        const deduper = createDeduper({ maxKeys: 1 }, jest.fn());
+        const record = (message: string): LogRecord => ({ level: 'info', severity: 30, timestamp: new Date(), message });
+
+        deduper.check(record('a'));
+
+        expect(deduper.check(record('b'))).toBe(true);
+        expect(deduper.check(record('b'))).toBe(true);
+        expect(deduper.check(record('a'))).toBe(false);
+    });
+
+    it('should validate dedupe config', () => {
+        expect(validatePipeline({ name: 'd', dedupe: { windowMs: 5000, keys: ['path'], burst: 10 }, transport: jest.fn() }).isValid).toBe(true);
+        expect(validatePipeline({ name: 'd', dedupe: { windowMs: -1 }, transport: jest.fn() }).isValid).toBe(false);
+    });
+});
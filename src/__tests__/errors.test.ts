@@ -0,0 +1,173 @@
+import {
+    loggedProcedure,
+    createErrorHandlingMiddleware,
+    createLogger,
+    createLoggingMiddleware,
+    createPerformanceMiddleware,
+    defineTransport,
+    jsonFormat,
+    serializeError,
+    type Logger,
+    type LogRecord
+} from '../index';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { z } from 'zod';
+
+describe('Error serialization', () => {
+    it('should keep name, message, stack and custom properties', () => {
+        const error = Object.assign(new TypeError('Bad value'), { field: 'email', retryable: false });
+
+        expect(serializeError(error)).toEqual({
+            name: 'TypeError',
+            message: 'Bad value',
+            stack: error.stack,
+            field: 'email',
+            retryable: false
+        });
+        expect(serializeError(error, { includeStack: false }).stack).toBeUndefined();
+    });
+
+    it('should follow cause chains and stop at cycles', () => {
+        const root = new Error('Connection refused');
+        (root as any).code = 'ECONNREFUSED';
+        const middle = new Error('Query failed', { cause: root });
+        const top = new Error('Could not load user', { cause: middle });
+        (root as any).cause = top;
+
+        const serialized = serializeError(top, { includeStack: false });
+
+        expect(serialized).toEqual({
+            name: 'Error',
+            message: 'Could not load user',
+            cause: {
+                name: 'Error',
+                message: 'Query failed',
+                cause: {
+                    name: 'Error',
+                    message: 'Connection refused',
+                    code: 'ECONNREFUSED',
+                    cause: '[Circular]'
+                }
+            }
+        });
+    });
+
+    it('should truncate causes beyond maxDepth', () => {
+        const error = new Error('a', { cause: new Error('b', { cause: new Error('c') }) });
+
+        expect(serializeError(error, { includeStack: false, maxDepth: 1 })).toEqual({
+            name: 'Error',
+            message: 'a',
+            cause: { name: 'Error', message: 'b', cause: '[Truncated]' }
+        });
+    });
+
+    it('should serialize AggregateError members', () => {
+        const AggregateErrorClass = (globalThis as any).AggregateError;
+        const error = new AggregateErrorClass([new Error('first'), 'second'], 'Several failures');
+
+        expect(serializeError(error, { includeStack: false })).toEqual({
+            name: 'AggregateError',
+            message: 'Several failures',
+            errors: [
+                { name: 'Error', message: 'first' },
+                { name: 'NonError', message: 'second' }
+            ]
+        });
+    });
+
+    it('should add the code and HTTP status of a TRPCError', () => {
+        const cause = new Error('Row missing');
+        const serialized = serializeError(new TRPCError({ code: 'NOT_FOUND', message: 'No such user', cause }), { includeStack: false });
+
+        expect(serialized).toEqual({
+            name: 'TRPCError',
+            message: 'No such user',
+            code: 'NOT_FOUND',
+            httpStatus: 404,
+            cause: { name: 'Error', message: 'Row missing' }
+        });
+    });
+
+    it('should flatten ZodError issues', () => {
+        const result = z.object({ user: z.object({ email: z.string().email() }), age: z.number() })
+            .safeParse({ user: { email: 'nope' }, age: 'old' });
+
+        const serialized = serializeError(!result.success && result.error, { includeStack: false });
+
+        expect(serialized.name).toBe('ZodError');
+        expect(serialized.issues).toEqual([
+            { path: 'user.email', message: 'Invalid email', code: 'invalid_string' },
+            { path: 'age', message: 'Expected number, received string', code: 'invalid_type' }
+        ]);
+    });
+
+    it('should serialize err and error meta keys before formatting', () => {
+        const output: string[] = [];
+        const logger = createLogger({
+            pipelines: [{ name: 'json', format: jsonFormat, transport: defineTransport((_record, formatted) => { output.push(formatted); }) }]
+        });
+
+        logger.info('Failed', { err: new TRPCError({ code: 'FORBIDDEN' }), other: 'kept' });
+
+        expect(JSON.parse(output[0]).meta).toEqual({
+            err: expect.objectContaining({ name: 'TRPCError', message: 'FORBIDDEN', code: 'FORBIDDEN', httpStatus: 403 }),
+            other: 'kept'
+        });
+    });
+
+    describe('middlewares', () => {
+        const t = initTRPC.context<{ logger?: Logger }>().create();
+        let records: LogRecord[];
+
+        const procedure = loggedProcedure(t.procedure, {
+            pipelines: [{ name: 'capture', level: 'debug', transport: defineTransport(record => { records.push(record); }) }]
+        }).withLogger('user.get');
+
+        beforeEach(() => {
+            records = [];
+        });
+
+        it('should log serialized errors of failed procedures', async () => {
+            const router = t.router({
+                get: procedure
+                    .use(createLoggingMiddleware({ logRequests: false }))
+                    .use(createErrorHandlingMiddleware())
+                    .use(createPerformanceMiddleware())
+                    .query(() => {
+                        throw new TRPCError({ code: 'CONFLICT', message: 'Already exists' });
+                    })
+            });
+
+            await expect(t.createCallerFactory(router)({}).get()).rejects.toThrow('Already exists');
+
+            expect(records.map(record => record.message)).toEqual(['Procedure failed', 'Procedure error', 'Request failed']);
+            for (const record of records) {
+                expect(record.meta?.error).toEqual(expect.objectContaining({
+                    name: 'TRPCError',
+                    message: 'Already exists',
+                    code: 'CONFLICT',
+                    httpStatus: 409
+                }));
+            }
+        });
+
+        it('should recognize wrapped validation errors', async () => {
+            const router = t.router({
+                get: procedure
+                    .use(createErrorHandlingMiddleware({
+                        logAllErrors: true,
+                        logValidationErrors: false,
+                        logAuthErrors: true,
+                        includeStack: false
+                    }))
+                    .input(z.object({ id: z.string() }))
+                    .query(({ input }) => input.id)
+            });
+
+            await expect(t.createCallerFactory(router)({}).get({ id: 1 } as any)).rejects.toThrow();
+
+            expect(records).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,131 @@
+import {
+    createLogger,
+    defineLogEvents,
+    defineTransport,
+    jsonFormat,
+    type LogRecord
+} from '../index';
+import { z } from 'zod';
+
+describe('Log event catalog', () => {
+    let records: LogRecord[];
+    let output: string[];
+
+    const createCapturingLogger = (level: 'debug' | 'warn' = 'debug') => createLogger({
+        pipelines: [{
+            name: 'capture',
+            level,
+            format: jsonFormat,
+            transport: defineTransport((record, formatted) => {
+                records.push(record);
+                output.push(formatted);
+            })
+        }]
+    }, 'orders');
+
+    const events = defineLogEvents({
+        'order.placed': z.object({ orderId: z.string(), total: z.number() }),
+        'payment.failed': {
+            schema: z.object({ orderId: z.string(), reason: z.string() }),
+            code: 'PAY-001',
+            level: 'error',
+            message: 'Payment failed'
+        }
+    }, { validate: true });
+
+    beforeEach(() => {
+        records = [];
+        output = [];
+    });
+
+    it('should resolve codes, levels and messages', () => {
+        expect(events.events['order.placed']).toEqual(expect.objectContaining({ code: 'order.placed', level: 'info', message: 'order.placed' }));
+        expect(events.events['payment.failed']).toEqual(expect.objectContaining({ code: 'PAY-001', level: 'error', message: 'Payment failed' }));
+    });
+
+    it('should log events at their level with their name and code', () => {
+        const logger = events.bind(createCapturingLogger());
+
+        logger.event('order.placed', { orderId: 'o-1', total: 42 });
+        logger.event('payment.failed', { orderId: 'o-1', reason: 'card declined' });
+
+        expect(records.map(record => [record.level, record.message, record.event, record.eventCode])).toEqual([
+            ['info', 'order.placed', 'order.placed', 'order.placed'],
+            ['error', 'Payment failed', 'payment.failed', 'PAY-001']
+        ]);
+        expect(records[0].meta).toEqual({ orderId: 'o-1', total: 42, event: 'order.placed', eventCode: 'order.placed' });
+        expect(JSON.parse(output[1])).toEqual(expect.objectContaining({ event: 'payment.failed', eventCode: 'PAY-001' }));
+    });
+
+    it('should type-check meta against the schema', () => {
+        const logger = events.bind(createCapturingLogger());
+
+        // @ts-expect-error total must be a number
+        logger.event('order.placed', { orderId: 'o-1', total: '42' });
+        // @ts-expect-error unknown event
+        expect(() => logger.event('order.shipped', {})).toThrow('Unknown log event "order.shipped"');
+    });
+
+    it('should warn about invalid meta and still log the event', () => {
+        const logger = events.bind(createCapturingLogger());
+
+        logger.event('order.placed', { orderId: 'o-1' } as any);
+
+        expect(records.map(record => [record.level, record.message])).toEqual([
+            ['warn', 'Invalid meta for log event "order.placed"'],
+            ['info', 'order.placed']
+        ]);
+        expect(records[0].meta?.error.issues).toEqual([expect.objectContaining({ path: 'total' })]);
+    });
+
+    it('should throw on invalid meta in strict mode and skip validation when disabled', () => {
+        const schema = z.object({ orderId: z.string() });
+        const strict = defineLogEvents({ 'order.placed': schema }, { strict: true }).bind(createCapturingLogger());
+        const unchecked = defineLogEvents({ 'order.placed': schema }, { validate: false }).bind(createCapturingLogger());
+
+        expect(() => strict.event('order.placed', { orderId: 1 } as any)).toThrow();
+        unchecked.event('order.placed', { orderId: 1 } as any);
+
+        expect(records.map(record => record.message)).toEqual(['order.placed']);
+    });
+
+    it('should skip validation for events below the logger level', () => {
+        const parse = jest.fn();
+        const logger = defineLogEvents({
+            'cache.miss': { schema: z.object({ key: z.string() }).superRefine(parse), level: 'debug' }
+        }).bind(createCapturingLogger('warn'));
+
+        logger.event('cache.miss', { key: 'user:1' });
+
+        expect(parse).not.toHaveBeenCalled();
+        expect(records).toEqual([]);
+    });
+
+    it('should keep event() on child loggers', () => {
+        const logger = events.bind(createCapturingLogger()).child({ tenantId: 't1' });
+
+        logger.event('order.placed', { orderId: 'o-1', total: 42 });
+
+        expect(records[0].meta).toEqual(expect.objectContaining({ tenantId: 't1', eventCode: 'order.placed' }));
+    });
+
+    it('should only set the event fields of records logged with event()', () => {
+        const logger = events.bind(createCapturingLogger()).child({ event: 'bound' });
+
+        logger.info('clicked', { event: { type: 'click' }, eventCode: 42 });
+        logger.event('order.placed', { orderId: 'o-1', total: 42 });
+
+        expect(records.map(record => [record.event, record.eventCode])).toEqual([
+            [undefined, undefined],
+            ['order.placed', 'order.placed']
+        ]);
+        expect(JSON.parse(output[0])).not.toHaveProperty('event');
+        expect(records[0].meta).toEqual({ event: { type: 'click' }, eventCode: 42 });
+    });
+
+    it('should reject duplicate codes', () => {
+        const schema = z.object({});
+
+        expect(() => defineLogEvents({ a: { schema, code: 'E1' }, b: { schema, code: 'E1' } })).toThrow('Duplicate log event code "E1"');
+    });
+});
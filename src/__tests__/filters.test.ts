@@ -0,0 +1,101 @@
+import { createLogger, matchRecord, passesFilter, type LogRecord, type PipelineConfig } from '../index';
+import { validatePipeline } from '../validation';
+
+describe('Pipeline filters', () => {
+    const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+        level: 'info',
+        severity: 30,
+        timestamp: new Date(),
+        name: 'billing.charge',
+        path: 'billing.charge',
+        message: 'Charged',
+        meta: { tenantId: 't1', amount: 10, user: { role: 'admin' } },
+        ...overrides
+    });
+
+    describe('matchRecord', () => {
+        it('should match name and path globs', () => {
+            expect(matchRecord(record(), { name: 'billing.*' })).toBe(true);
+            expect(matchRecord(record(), { name: ['user.*', 'health'] })).toBe(false);
+            expect(matchRecord(record({ path: undefined }), { path: '*' })).toBe(false);
+        });
+
+        it('should match meta values', () => {
+            expect(matchRecord(record(), { meta: { tenantId: { exists: true } } })).toBe(true);
+            expect(matchRecord(record(), { meta: { jobId: { exists: true } } })).toBe(false);
+            expect(matchRecord(record(), { meta: { amount: 10, tenantId: /^t/ } })).toBe(true);
+            expect(matchRecord(record(), { meta: { amount: (value: number) => value > 100 } })).toBe(false);
+            expect(matchRecord(record(), { meta: { 'user.role': 'admin' } })).toBe(true);
+        });
+
+        it('should require every field to match', () => {
+            expect(matchRecord(record(), { name: 'billing.*', meta: { tenantId: 't2' } })).toBe(false);
+        });
+    });
+
+    describe('passesFilter', () => {
+        it('should combine include, exclude and predicate', () => {
+            const filter = {
+                include: { name: 'billing.*' },
+                exclude: { meta: { amount: 0 } },
+                predicate: (r: LogRecord) => r.level !== 'debug'
+            };
+
+            expect(passesFilter(record(), filter)).toBe(true);
+            expect(passesFilter(record({ name: 'user.get' }), filter)).toBe(false);
+            expect(passesFilter(record({ meta: { amount: 0 } }), filter)).toBe(false);
+            expect(passesFilter(record({ level: 'debug' }), filter)).toBe(false);
+        });
+    });
+
+    describe('routing', () => {
+        it('should route records between pipelines before formatting', () => {
+            const audit = jest.fn();
+            const http = jest.fn();
+            const tenant = jest.fn();
+            const httpFormat = jest.fn((name: string | undefined, message: string) => message);
+            const config: PipelineConfig = {
+                pipelines: [
+                    { name: 'audit', filter: { include: { name: 'billing.*' } }, transport: audit },
+                    { name: 'http', filter: { exclude: { name: ['health', 'health.*'] } }, format: httpFormat, transport: http },
+                    { name: 'tenant', filter: { include: { meta: { tenantId: { exists: true } } } }, transport: tenant }
+                ]
+            };
+
+            createLogger(config, 'billing.charge').info('Charged', { tenantId: 't1' });
+            createLogger(config, 'health').info('OK');
+
+            expect(audit.mock.calls.map(call => call[0])).toEqual(['billing.charge']);
+            expect(http.mock.calls.map(call => call[0])).toEqual(['billing.charge']);
+            expect(httpFormat).toHaveBeenCalledTimes(1);
+            expect(tenant.mock.calls.map(call => call[2])).toEqual([{ tenantId: 't1' }]);
+        });
+    });
+
+    describe('validation', () => {
+        it('should accept declarative filters', () => {
+            const result = validatePipeline({
+                name: 'audit',
+                filter: {
+                    include: { name: ['billing.*'], meta: { tenantId: { exists: true }, region: /^eu/ } },
+                    exclude: { path: 'health' },
+                    predicate: () => true
+                },
+                transport: jest.fn()
+            });
+
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should reject unknown matcher fields', () => {
+            const result = validatePipeline({
+                name: 'audit',
+                filter: { include: { procedure: 'billing.*' } },
+                transport: jest.fn()
+            });
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0].field).toBe('filter.include');
+        });
+    });
+});
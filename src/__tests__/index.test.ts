@@ -44,16 +44,22 @@ describe('trpc-logger', () => {
     describe('Logger interface', () => {
         it('should have all required methods', () => {
             const logger: Logger = {
+                fatal: jest.fn(),
                 error: jest.fn(),
                 warn: jest.fn(),
                 info: jest.fn(),
-                debug: jest.fn()
+                debug: jest.fn(),
+                trace: jest.fn(),
+                isLevelEnabled: jest.fn(),
+                child: jest.fn()
             };
 
             expect(logger.error).toBeDefined();
             expect(logger.warn).toBeDefined();
             expect(logger.info).toBeDefined();
             expect(logger.debug).toBeDefined();
+            expect(logger.trace).toBeDefined();
+            expect(logger.fatal).toBeDefined();
         });
     });
 
@@ -1,14 +1,20 @@
-import { loggedProcedure, type Logger, type PipelineConfig } from '../index';
+import {
+    loggedProcedure,
+    createLogger,
+    memoryTransport,
+    type MemoryTransport,
+    type PipelineConfig
+} from '../index';
 import { initTRPC } from '@trpc/server';
 import { z } from 'zod';
 
 describe('trpc-logger Integration Tests', () => {
-    let mockTransport: jest.Mock;
-    let mockErrorTransport: jest.Mock;
+    let memory: MemoryTransport;
+    let errorMemory: MemoryTransport;
 
     beforeEach(() => {
-        mockTransport = jest.fn();
-        mockErrorTransport = jest.fn();
+        memory = memoryTransport();
+        errorMemory = memoryTransport();
     });
 
     describe('Logger Functionality', () => {
@@ -18,7 +24,7 @@ describe('trpc-logger Integration Tests', () => {
                     {
                         name: 'test',
                         level: 'info' as const,
-                        transport: mockTransport
+                        transport: memory
                     }
                 ]
             };
@@ -41,9 +47,9 @@ describe('trpc-logger Integration Tests', () => {
         });
 
         it('should handle different log levels', () => {
-            const infoTransport = jest.fn();
-            const debugTransport = jest.fn();
-            const errorTransport = jest.fn();
+            const infoTransport = memoryTransport();
+            const debugTransport = memoryTransport();
+            const errorTransport = memoryTransport();
 
             const config: PipelineConfig = {
                 pipelines: [
@@ -71,10 +77,19 @@ describe('trpc-logger Integration Tests', () => {
 
             const procedure = loggedProcedure(mockBase, config);
             expect(procedure.withLogger).toBeDefined();
+
+            const logger = createLogger(config, 'levels');
+            logger.debug('Cache miss');
+            logger.info('Order placed');
+            logger.error('Payment failed');
+
+            expect(debugTransport.query().map(record => record.message)).toEqual(['Cache miss', 'Order placed', 'Payment failed']);
+            expect(infoTransport.query().map(record => record.message)).toEqual(['Order placed', 'Payment failed']);
+            expect(errorTransport.query().map(record => record.message)).toEqual(['Payment failed']);
         });
 
         it('should use custom formatting', () => {
-            const customTransport = jest.fn();
+            const customTransport = memoryTransport();
             const customFormat = (name: string | undefined, message: string, meta?: Record<string, any>) => {
                 return `CUSTOM[${name}]: ${message}`;
             };
@@ -106,7 +121,7 @@ describe('trpc-logger Integration Tests', () => {
                     {
                         name: 'console',
                         level: 'info' as const,
-                        transport: mockTransport
+                        transport: memory
                     }
                 ],
                 defaultLevel: 'info' as const
@@ -122,12 +137,12 @@ describe('trpc-logger Integration Tests', () => {
                     {
                         name: 'console',
                         level: 'info' as const,
-                        transport: mockTransport
+                        transport: memory
                     },
                     {
                         name: 'file',
                         level: 'error' as const,
-                        transport: mockErrorTransport
+                        transport: errorMemory
                     }
                 ]
             };
@@ -158,7 +173,7 @@ describe('trpc-logger Integration Tests', () => {
                     {
                         name: 'test',
                         level: 'info' as const,
-                        transport: mockTransport
+                        transport: memory
                     }
                 ],
                 defaultLevel: 'info' as const
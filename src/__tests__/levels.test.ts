@@ -0,0 +1,221 @@
+import { loggedProcedure, levelMatches, createLevelController, type Logger, type PipelineConfig } from '../index';
+import { validatePipelineConfig } from '../validation';
+import { initTRPC } from '@trpc/server';
+
+describe('Log levels', () => {
+    const t = initTRPC.context<{ logger?: Logger }>().create();
+
+    const callAllLevels = async (config: PipelineConfig) => {
+        const procedure = loggedProcedure(t.procedure, config);
+        const router = t.router({
+            run: procedure.withLogger('levels').query(({ ctx }) => {
+                ctx.logger.trace('trace message');
+                ctx.logger.debug('debug message');
+                ctx.logger.info('info message');
+                ctx.logger.warn('warn message');
+                ctx.logger.error('error message');
+                ctx.logger.fatal('fatal message');
+                return null;
+            })
+        });
+        await t.createCallerFactory(router)({}).run();
+    };
+
+    const messages = (transport: jest.Mock) => transport.mock.calls.map(call => call[1]);
+
+    describe('levelMatches', () => {
+        it('should treat the pipeline level as a minimum severity by default', () => {
+            expect(levelMatches('error', 'info')).toBe(true);
+            expect(levelMatches('info', 'info')).toBe(true);
+            expect(levelMatches('debug', 'info')).toBe(false);
+        });
+
+        it('should only match the same level in exact mode', () => {
+            expect(levelMatches('error', 'info', 'exact')).toBe(false);
+            expect(levelMatches('info', 'info', 'exact')).toBe(true);
+        });
+    });
+
+    describe('pipeline filtering', () => {
+        it('should send every level at or above the pipeline level', async () => {
+            const transport = jest.fn();
+            await callAllLevels({ pipelines: [{ name: 'warn', level: 'warn', transport }] });
+
+            expect(messages(transport)).toEqual([
+                '[WARN] [levels] warn message',
+                '[ERROR] [levels] error message',
+                '[FATAL] [levels] fatal message'
+            ]);
+        });
+
+        it('should use the default level as threshold when a pipeline has none', async () => {
+            const transport = jest.fn();
+            await callAllLevels({ pipelines: [{ name: 'all', transport }], defaultLevel: 'trace' });
+
+            expect(transport).toHaveBeenCalledTimes(6);
+        });
+
+        it('should support exact matching per pipeline', async () => {
+            const transport = jest.fn();
+            await callAllLevels({ pipelines: [{ name: 'warn', level: 'warn', levelMatch: 'exact', transport }] });
+
+            expect(messages(transport)).toEqual(['[WARN] [levels] warn message']);
+        });
+
+        it('should support exact matching for the whole config', async () => {
+            const infoTransport = jest.fn();
+            const thresholdTransport = jest.fn();
+            await callAllLevels({
+                pipelines: [
+                    { name: 'info', level: 'info', transport: infoTransport },
+                    { name: 'threshold', level: 'error', levelMatch: 'threshold', transport: thresholdTransport }
+                ],
+                levelMatch: 'exact'
+            });
+
+            expect(messages(infoTransport)).toEqual(['[INFO] [levels] info message']);
+            expect(thresholdTransport).toHaveBeenCalledTimes(2);
+        });
+    });
+
+    describe('createLevelController', () => {
+        const config: PipelineConfig = {
+            pipelines: [
+                { name: 'console', level: 'info', transport: jest.fn() },
+                { name: 'file', transport: jest.fn() }
+            ],
+            defaultLevel: 'warn'
+        };
+
+        it('should return the configured levels without overrides', () => {
+            const levels = createLevelController(config);
+
+            expect(levels.getLevel('console', 'user.get')).toBe('info');
+            expect(levels.getLevel('file', 'user.get')).toBe('warn');
+        });
+
+        it('should override by pipeline and procedure pattern', () => {
+            const levels = createLevelController(config);
+            levels.setLevel('error', { pipeline: 'console' });
+            levels.setLevel('debug', { procedure: 'user.*' });
+
+            expect(levels.getLevel('console', 'billing.charge')).toBe('error');
+            expect(levels.getLevel('console', 'user.get')).toBe('debug');
+            expect(levels.getLevel('file', 'user.update:db')).toBe('debug');
+            expect(levels.getLevel('file', 'billing.charge')).toBe('warn');
+        });
+
+        it('should prefer the most specific override', () => {
+            const levels = createLevelController(config);
+            levels.setLevel('trace', { pipeline: 'file', procedure: 'user.*' });
+            levels.setLevel('debug', { procedure: 'user.*' });
+            levels.setLevel('error');
+
+            expect(levels.getLevel('file', 'user.get')).toBe('trace');
+            expect(levels.getLevel('console', 'user.get')).toBe('debug');
+            expect(levels.getLevel('console', 'billing.charge')).toBe('error');
+        });
+
+        it('should clear and reset overrides', () => {
+            const levels = createLevelController(config);
+            levels.setLevel('debug', { procedure: 'user.*' });
+            levels.setLevel('error', { pipeline: 'file' });
+
+            levels.clearLevel({ procedure: 'user.*' });
+            expect(levels.getOverrides()).toEqual([{ pipeline: 'file', level: 'error' }]);
+
+            levels.reset();
+            expect(levels.getOverrides()).toEqual([]);
+            expect(levels.getLevel('file')).toBe('warn');
+        });
+
+        it('should reject unknown levels and pipelines', () => {
+            const levels = createLevelController(config);
+
+            expect(() => levels.setLevel('verbose' as any)).toThrow('Unknown log level: verbose');
+            expect(() => levels.setLevel('debug', { pipeline: 'missing' })).toThrow('Unknown pipeline: missing');
+        });
+
+        it('should apply changes to procedures on the next log call', async () => {
+            const transport = jest.fn();
+            const procedure = loggedProcedure(t.procedure, {
+                pipelines: [{ name: 'console', level: 'info', transport }]
+            });
+            const router = t.router({
+                get: procedure.withLogger('user.get').query(({ ctx }) => {
+                    ctx.logger.debug('Loading user');
+                    return null;
+                }),
+                charge: procedure.withLogger('billing.charge').query(({ ctx }) => {
+                    ctx.logger.debug('Charging');
+                    return null;
+                })
+            });
+            const caller = t.createCallerFactory(router)({});
+
+            await caller.get();
+            expect(transport).not.toHaveBeenCalled();
+
+            procedure.levels.setLevel('debug', { procedure: 'user.*' });
+            await caller.get();
+            await caller.charge();
+            expect(messages(transport)).toEqual(['[DEBUG] [user.get] Loading user']);
+
+            procedure.levels.clearLevel({ procedure: 'user.*' });
+            await caller.get();
+            expect(transport).toHaveBeenCalledTimes(1);
+        });
+
+        it('should follow config changes made after procedures are created', async () => {
+            const console = jest.fn();
+            const audit = jest.fn();
+            const config: PipelineConfig = { pipelines: [{ name: 'console', transport: console }], defaultLevel: 'warn' };
+            const procedure = loggedProcedure(t.procedure, config);
+            const router = t.router({
+                get: procedure.withLogger('user.get').query(({ ctx }) => {
+                    ctx.logger.debug('Loading user');
+                    ctx.logger.info('Loaded user');
+                    return null;
+                })
+            });
+            const caller = t.createCallerFactory(router)({});
+
+            await caller.get();
+            expect(console).not.toHaveBeenCalled();
+
+            config.defaultLevel = 'info';
+            await caller.get();
+            expect(messages(console)).toEqual(['[INFO] [user.get] Loaded user']);
+
+            config.pipelines = [{ name: 'audit', level: 'error', transport: audit }];
+            await caller.get();
+            expect(audit).not.toHaveBeenCalled();
+
+            procedure.levels.setLevel('debug', { pipeline: 'audit' });
+            await caller.get();
+            expect(messages(audit)).toEqual(['[DEBUG] [user.get] Loading user', '[INFO] [user.get] Loaded user']);
+            expect(console).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('validation', () => {
+        it('should accept trace and fatal levels', () => {
+            const result = validatePipelineConfig({
+                pipelines: [{ name: 'trace', level: 'trace', transport: jest.fn() }],
+                defaultLevel: 'fatal',
+                levelMatch: 'exact'
+            });
+
+            expect(result.isValid).toBe(true);
+        });
+
+        it('should reject unknown level match modes', () => {
+            const result = validatePipelineConfig({
+                pipelines: [{ name: 'console', levelMatch: 'nearest', transport: jest.fn() }]
+            });
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors[0].field).toBe('pipelines.0.levelMatch');
+        });
+    });
+});
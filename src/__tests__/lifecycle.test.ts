@@ -0,0 +1,187 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    createLogger,
+    bufferedTransport,
+    defineTransport,
+    fileTransport,
+    flush,
+    shutdown,
+    type LogRecord
+} from '../index';
+
+describe('Transport lifecycle', () => {
+    const record = (message: string): LogRecord => ({ level: 'info', severity: 30, timestamp: new Date(), message });
+
+    // A transport whose deliveries stay pending until released
+    const createSlowTransport = () => {
+        const delivered: string[] = [];
+        const pending: Array<() => void> = [];
+        const transport = defineTransport(r => new Promise<void>(resolve => {
+            pending.push(() => {
+                delivered.push(r.message);
+                resolve();
+            });
+        }));
+        const tick = () => new Promise(resolve => setImmediate(resolve));
+        const releaseAll = async () => {
+            await tick();
+            while (pending.length > 0) {
+                pending.shift()!();
+                await tick();
+            }
+        };
+        return { transport, delivered, releaseAll };
+    };
+
+    describe('bufferedTransport', () => {
+        it('should deliver queued records in order and flush', async () => {
+            const slow = createSlowTransport();
+            const buffered = bufferedTransport(slow.transport);
+
+            ['a', 'b', 'c'].forEach(message => buffered(record(message), message));
+            const flushed = buffered.flush!();
+            await slow.releaseAll();
+            await flushed;
+
+            expect(slow.delivered).toEqual(['a', 'b', 'c']);
+        });
+
+        it('should drop the oldest queued record when full', async () => {
+            const slow = createSlowTransport();
+            const buffered = bufferedTransport(slow.transport, { maxQueue: 2 });
+
+            const results = ['a', 'b', 'c', 'd'].map(message =>
+                (buffered(record(message), message) as Promise<void>).then(() => 'ok', error => error.message)
+            );
+            await slow.releaseAll();
+
+            // 'a' is in flight, 'b' is dropped to make room for 'd'
+            expect(await Promise.all(results)).toEqual(['ok', 'Log queue is full, record dropped', 'ok', 'ok']);
+            expect(slow.delivered).toEqual(['a', 'c', 'd']);
+        });
+
+        it('should drop the newest record when full', async () => {
+            const slow = createSlowTransport();
+            const buffered = bufferedTransport(slow.transport, { maxQueue: 1, overflow: 'drop-newest' });
+
+            const results = ['a', 'b', 'c'].map(message =>
+                (buffered(record(message), message) as Promise<void>).then(() => 'ok', error => error.message)
+            );
+            await slow.releaseAll();
+
+            expect(await Promise.all(results)).toEqual(['ok', 'ok', 'Log queue is full, record dropped']);
+        });
+
+        it('should hold records until there is room when blocking', async () => {
+            const slow = createSlowTransport();
+            const buffered = bufferedTransport(slow.transport, { maxQueue: 1, overflow: 'block', maxBlocked: 2 });
+
+            const results = ['a', 'b', 'c', 'd'].map(message => buffered(record(message), message));
+            const flushed = buffered.flush!();
+            await slow.releaseAll();
+            await Promise.all(results);
+            await flushed;
+
+            expect(slow.delivered).toEqual(['a', 'b', 'c', 'd']);
+        });
+
+        it('should reject records past maxBlocked while the transport is stalled', async () => {
+            const slow = createSlowTransport();
+            const buffered = bufferedTransport(slow.transport, { maxQueue: 2, overflow: 'block', maxBlocked: 3 });
+
+            const results = Array.from({ length: 1000 }, (_, i) =>
+                (buffered(record(`r${i}`), `r${i}`) as Promise<void>).then(() => 'ok', () => 'dropped')
+            );
+            await slow.releaseAll();
+            const settled = await Promise.all(results);
+
+            // One in flight, two queued and three held
+            expect(settled.filter(result => result === 'ok')).toHaveLength(6);
+            expect(slow.delivered).toEqual(['r0', 'r1', 'r2', 'r3', 'r4', 'r5']);
+        });
+
+        it('should reject records after close', async () => {
+            const close = jest.fn();
+            const buffered = bufferedTransport(defineTransport(() => undefined, { close }));
+
+            await buffered.close!();
+
+            await expect(buffered(record('late'), 'late')).rejects.toThrow('Transport is closed');
+            expect(close).toHaveBeenCalled();
+        });
+    });
+
+    describe('fileTransport', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trpc-logger-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('should append through a stream and flush', async () => {
+            const filename = path.join(dir, 'app.log');
+            const transport = fileTransport(filename);
+
+            transport(record('first'), 'first');
+            transport(record('second'), 'second');
+            await transport.flush!();
+
+            expect(fs.readFileSync(filename, 'utf8')).toBe('first\nsecond\n');
+            await transport.close!();
+        });
+
+        it('should reject writes that fail', async () => {
+            const transport = fileTransport(path.join(dir, 'missing', 'app.log'));
+
+            await expect(transport(record('lost'), 'lost')).rejects.toThrow();
+        });
+    });
+
+    describe('flush and shutdown', () => {
+        it('should drain every pipeline and dedupe summary', async () => {
+            const slow = createSlowTransport();
+            const logger = createLogger({
+                pipelines: [{ name: 'slow', dedupe: { windowMs: 60_000 }, transport: bufferedTransport(slow.transport) }]
+            }, 'svc');
+
+            logger.info('repeated');
+            logger.info('repeated');
+            logger.info('repeated');
+
+            const result = flush();
+            await slow.releaseAll();
+            await slow.releaseAll();
+
+            expect(await result).toEqual({ drained: true, errors: [] });
+            expect(slow.delivered).toEqual(['repeated', 'repeated']);
+        });
+
+        it('should give up after the timeout', async () => {
+            const logger = createLogger({
+                pipelines: [{ name: 'stuck', transport: bufferedTransport(defineTransport(() => new Promise<void>(() => undefined))) }]
+            }, 'svc');
+
+            logger.info('never delivered');
+
+            expect(await shutdown({ timeoutMs: 20 })).toEqual({ drained: false, errors: [] });
+        });
+
+        it('should not drain pipelines again once shut down', async () => {
+            const lifecycle = { flush: jest.fn(), close: jest.fn() };
+            createLogger({ pipelines: [{ name: 'closed', transport: defineTransport(() => undefined, lifecycle) }] }, 'svc');
+
+            await shutdown();
+            await flush();
+            await shutdown();
+
+            expect(lifecycle.close).toHaveBeenCalledTimes(1);
+            expect(lifecycle.flush).not.toHaveBeenCalled();
+        });
+    });
+});
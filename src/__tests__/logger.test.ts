@@ -0,0 +1,266 @@
+import {
+    loggedProcedure,
+    createLogger,
+    createLevelController,
+    defineTransport,
+    type Logger,
+    type LogRecord,
+    type PipelineConfig
+} from '../index';
+import { initTRPC } from '@trpc/server';
+
+describe('createLogger', () => {
+    let transport: jest.Mock;
+    let config: PipelineConfig;
+
+    beforeEach(() => {
+        transport = jest.fn();
+        config = { pipelines: [{ name: 'test', level: 'trace', transport }] };
+    });
+
+    describe('child loggers', () => {
+        it('should merge bound fields into every meta', () => {
+            const logger = createLogger(config, 'user.update').child({ userId: 'u1', tenantId: 't1' });
+
+            logger.info('Updating user', { field: 'email' });
+            logger.warn('No changes');
+
+            expect(transport).toHaveBeenNthCalledWith(1, 'user.update', '[INFO] [user.update] Updating user', {
+                userId: 'u1',
+                tenantId: 't1',
+                field: 'email'
+            });
+            expect(transport).toHaveBeenNthCalledWith(2, 'user.update', '[WARN] [user.update] No changes', {
+                userId: 'u1',
+                tenantId: 't1'
+            });
+        });
+
+        it('should let call-site meta override bound fields', () => {
+            const logger = createLogger(config, 'jobs').child({ jobId: 'a' });
+
+            logger.info('Retrying', { jobId: 'b' });
+
+            expect(transport.mock.calls[0][2]).toEqual({ jobId: 'b' });
+        });
+
+        it('should accumulate bindings when nested', () => {
+            const logger = createLogger(config, 'jobs')
+                .child({ tenantId: 't1' })
+                .child({ jobId: 'j1' });
+
+            logger.debug('Step finished');
+
+            expect(transport.mock.calls[0][2]).toEqual({ tenantId: 't1', jobId: 'j1' });
+        });
+
+        it('should keep the parent name unless a suffix is given', () => {
+            const logger = createLogger(config, 'user.update');
+
+            logger.child({}).info('same name');
+            logger.child({}, { name: 'db' }).info('suffixed');
+            logger.child({}, { name: 'db' }).child({}, { name: 'query' }).info('nested suffix');
+
+            expect(transport.mock.calls.map(call => call[0])).toEqual([
+                'user.update',
+                'user.update:db',
+                'user.update:db:query'
+            ]);
+        });
+
+        it('should not affect the parent logger', () => {
+            const logger = createLogger(config, 'parent');
+            logger.child({ userId: 'u1' });
+
+            logger.info('parent message');
+
+            expect(transport.mock.calls[0][2]).toBeUndefined();
+        });
+
+        it('should pass bound fields to custom formats', () => {
+            const format = jest.fn((name, message, meta) => `${name}|${message}|${meta.requestId}`);
+            const logger = createLogger({ pipelines: [{ name: 'formatted', format, transport }] }, 'svc')
+                .child({ requestId: 'r1' });
+
+            logger.info('hello');
+
+            expect(transport).toHaveBeenCalledWith('svc', 'svc|hello|r1', { requestId: 'r1' });
+        });
+    });
+
+    describe('lazy evaluation', () => {
+        it('should not evaluate thunks when no pipeline accepts the level', () => {
+            const meta = jest.fn(() => ({ plan: 'expensive' }));
+            const message = jest.fn(() => 'Query plan');
+            const logger = createLogger({ pipelines: [{ name: 'info', level: 'info', transport }] }, 'db');
+
+            logger.debug(message, meta);
+
+            expect(message).not.toHaveBeenCalled();
+            expect(meta).not.toHaveBeenCalled();
+            expect(transport).not.toHaveBeenCalled();
+        });
+
+        it('should evaluate thunks once for every accepting pipeline', () => {
+            const meta = jest.fn(() => ({ plan: 'expensive' }));
+            const logger = createLogger({
+                pipelines: [
+                    { name: 'a', level: 'debug', transport },
+                    { name: 'b', level: 'debug', transport }
+                ]
+            }, 'db').child({ userId: 'u1' });
+
+            logger.debug(() => 'Query plan', meta);
+
+            expect(meta).toHaveBeenCalledTimes(1);
+            expect(transport).toHaveBeenCalledWith('db', '[DEBUG] [db] Query plan', { userId: 'u1', plan: 'expensive' });
+            expect(transport).toHaveBeenCalledTimes(2);
+        });
+
+        it('should skip thunks when name filters rule out every pipeline', () => {
+            const meta = jest.fn(() => ({}));
+            const logger = createLogger({
+                pipelines: [
+                    { name: 'billing', level: 'debug', filter: { include: { name: 'billing.*' } }, transport },
+                    { name: 'no-health', level: 'debug', filter: { exclude: { name: 'health' } }, transport }
+                ]
+            }, 'health');
+
+            logger.debug('Checked', meta);
+
+            expect(meta).not.toHaveBeenCalled();
+        });
+
+        it('should report throwing thunks instead of failing the caller', () => {
+            const onTransportError = jest.fn();
+            const logger = createLogger({ pipelines: [{ name: 'test', level: 'debug', transport }], onTransportError }, 'db');
+
+            expect(() => logger.debug(() => { throw new Error('message failed'); })).not.toThrow();
+            expect(() => logger.debug('Query plan', () => { throw new Error('meta failed'); })).not.toThrow();
+
+            expect(transport).not.toHaveBeenCalled();
+            expect(onTransportError.mock.calls.map(([error, context]) => [error.message, context.pipeline, context.record.message])).toEqual([
+                ['message failed', 'test', '[unresolved message]'],
+                ['meta failed', 'test', 'Query plan']
+            ]);
+        });
+
+        it('should evaluate thunks when a meta filter has to decide', () => {
+            const meta = jest.fn(() => ({ tenantId: 't1' }));
+            const logger = createLogger({
+                pipelines: [{ name: 'tenant', level: 'debug', filter: { include: { meta: { tenantId: { exists: true } } } }, transport }]
+            }, 'db');
+
+            logger.debug('Tenant query', meta);
+
+            expect(meta).toHaveBeenCalled();
+            expect(transport).toHaveBeenCalled();
+        });
+    });
+
+    describe('isLevelEnabled', () => {
+        it('should follow level thresholds', () => {
+            const logger = createLogger({ pipelines: [{ name: 'warn', level: 'warn', transport }] }, 'svc');
+
+            expect(logger.isLevelEnabled('debug')).toBe(false);
+            expect(logger.isLevelEnabled('warn')).toBe(true);
+            expect(logger.isLevelEnabled('fatal')).toBe(true);
+        });
+
+        it('should follow name filters and runtime level changes', () => {
+            const levels = createLevelController(config);
+            const filtered = createLogger({
+                pipelines: [{ name: 'billing', level: 'trace', filter: { include: { name: 'billing.*' } }, transport }]
+            }, 'user.get');
+            const controlled = createLogger(config, 'user.get', { levels });
+
+            expect(filtered.isLevelEnabled('error')).toBe(false);
+
+            levels.setLevel('error');
+            expect(controlled.isLevelEnabled('info')).toBe(false);
+            expect(controlled.child({}).isLevelEnabled('error')).toBe(true);
+        });
+    });
+
+    describe('withLogger', () => {
+        it('should expose child on the injected logger', async () => {
+            const t = initTRPC.context<{ logger?: Logger }>().create();
+            const procedure = loggedProcedure(t.procedure, config);
+            const router = t.router({
+                update: procedure.withLogger('user.update').mutation(({ ctx }) => {
+                    ctx.logger.child({ userId: 'u1' }, { name: 'db' }).info('Saved');
+                    return null;
+                })
+            });
+
+            await t.createCallerFactory(router)({}).update();
+
+            expect(transport).toHaveBeenCalledWith('user.update:db', '[INFO] [user.update:db] Saved', { userId: 'u1' });
+        });
+
+        it('should name the logger after the procedure path when no name is given', async () => {
+            const t = initTRPC.context<{ logger?: Logger }>().create();
+            const procedure = loggedProcedure(t.procedure, config).withLogger();
+            const router = t.router({
+                user: t.router({
+                    get: procedure.query(({ ctx }) => {
+                        ctx.logger.info('Loaded');
+                        return null;
+                    }),
+                    update: procedure.mutation(({ ctx }) => {
+                        ctx.logger.info('Saved');
+                        return null;
+                    })
+                })
+            });
+            const caller = t.createCallerFactory(router)({});
+
+            await caller.user.get();
+            await caller.user.update();
+
+            expect(transport).toHaveBeenNthCalledWith(1, 'user.get', '[INFO] [user.get] Loaded', undefined);
+            expect(transport).toHaveBeenNthCalledWith(2, 'user.update', '[INFO] [user.update] Saved', undefined);
+        });
+
+        it('should build names from the name template and record the procedure type', async () => {
+            const t = initTRPC.context<{ logger?: Logger }>().create();
+            const records: LogRecord[] = [];
+            const procedure = loggedProcedure(t.procedure, {
+                pipelines: [{ name: 'capture', transport: defineTransport(record => { records.push(record); }) }],
+                nameTemplate: '${service}:${path}',
+                nameVariables: { service: 'billing' }
+            });
+            const router = t.router({
+                invoice: t.router({
+                    list: procedure.withLogger().query(({ ctx }) => {
+                        ctx.logger.info('Listed');
+                        ctx.logger.debug('Filtered out below info');
+                        return null;
+                    }),
+                    pay: procedure.withLogger('payments').mutation(({ ctx }) => {
+                        ctx.logger.info('Paid');
+                        return null;
+                    })
+                })
+            });
+            const caller = t.createCallerFactory(router)({});
+
+            procedure.levels.setLevel('debug', { procedure: 'billing:invoice.*' });
+            await caller.invoice.list();
+            await caller.invoice.pay();
+
+            expect(records.map(record => [record.name, record.type, record.message])).toEqual([
+                ['billing:invoice.list', 'query', 'Listed'],
+                ['billing:invoice.list', 'query', 'Filtered out below info'],
+                ['billing:invoice.pay', 'mutation', 'Paid']
+            ]);
+        });
+
+        it('should reject unknown name template variables', () => {
+            const t = initTRPC.context<{ logger?: Logger }>().create();
+            const procedure = loggedProcedure(t.procedure, { ...config, nameTemplate: '${region}/${name}' });
+
+            expect(() => procedure.withLogger('user.get')).toThrow('Unknown logger name variable "region" in "${region}/${name}"');
+        });
+    });
+});
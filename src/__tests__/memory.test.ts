@@ -0,0 +1,63 @@
+import { createLogger, memoryTransport, runWithRequestContext } from '../index';
+
+describe('Memory transport', () => {
+    it('should keep the most recent records up to maxRecords', () => {
+        const memory = memoryTransport({ maxRecords: 3 });
+        const logger = createLogger({ pipelines: [{ name: 'memory', transport: memory }] }, 'jobs');
+
+        for (let i = 1; i <= 5; i++) {
+            logger.info(`Job ${i}`);
+        }
+
+        expect(memory.count).toBe(3);
+        expect(memory.query().map(record => record.message)).toEqual(['Job 3', 'Job 4', 'Job 5']);
+    });
+
+    it('should drop the oldest records to stay within maxBytes', () => {
+        const memory = memoryTransport({ maxBytes: 40 });
+        const logger = createLogger({ pipelines: [{ name: 'memory', transport: memory }] });
+
+        logger.info('a'.repeat(15));
+        logger.info('b'.repeat(15));
+        logger.info('c', { note: 'c'.repeat(10) });
+        logger.info('too large to keep'.repeat(3));
+
+        expect(memory.query().map(record => record.message)).toEqual(['b'.repeat(15), 'c']);
+        expect(memory.bytes).toBe(15 + Buffer.byteLength('c {"note":"cccccccccc"}'));
+    });
+
+    it('should filter by level, name, time range, request id and text', () => {
+        const memory = memoryTransport();
+        const config = { pipelines: [{ name: 'memory', level: 'debug' as const, transport: memory }] };
+        const billing = createLogger(config, 'billing.invoice');
+        const users = createLogger(config, 'users.get');
+
+        const start = Date.now();
+        billing.debug('Rendering invoice');
+        runWithRequestContext({ logger: billing, requestId: 'req-1' }, () => {
+            billing.warn('Payment provider timeout', { provider: 'Acme' });
+            users.error('User lookup failed');
+        });
+
+        const messages = (query: Parameters<typeof memory.query>[0]) => memory.query(query).map(record => record.message);
+
+        expect(messages({ level: 'warn' })).toEqual(['Payment provider timeout', 'User lookup failed']);
+        expect(messages({ name: 'billing.*' })).toEqual(['Rendering invoice', 'Payment provider timeout']);
+        expect(messages({ requestId: 'req-1', level: 'error' })).toEqual(['User lookup failed']);
+        expect(messages({ text: 'ACME' })).toEqual(['Payment provider timeout']);
+        expect(messages({ text: /^user/i })).toEqual(['User lookup failed']);
+        expect(messages({ since: start, until: new Date(Date.now() + 1000), limit: 2 })).toEqual(['Payment provider timeout', 'User lookup failed']);
+        expect(messages({ since: Date.now() + 1000 })).toEqual([]);
+    });
+
+    it('should forget everything on clear', () => {
+        const memory = memoryTransport();
+        const logger = createLogger({ pipelines: [{ name: 'memory', transport: memory }] });
+
+        logger.info('Kept until cleared');
+        memory.clear();
+
+        expect(memory.query()).toEqual([]);
+        expect([memory.count, memory.bytes]).toEqual([0, 0]);
+    });
+});
@@ -0,0 +1,328 @@
+import {
+    loggedProcedure,
+    combineMiddlewares,
+    createComprehensiveMiddleware,
+    createErrorHandlingMiddleware,
+    createLoggingMiddleware,
+    createPerformanceMonitor,
+    createRateLimitingMiddleware,
+    createRequestIdMiddleware,
+    defineTransport,
+    getLogger,
+    readRequestId,
+    type Logger,
+    type LoggingMeta,
+    type LogRecord
+} from '../index';
+import { initTRPC } from '@trpc/server';
+import { z } from 'zod';
+
+describe('Request id middleware', () => {
+    interface Context {
+        logger?: Logger;
+        requestId?: string;
+        req?: { headers: Record<string, string | string[]> };
+        res?: { headersSent: boolean; setHeader: jest.Mock };
+    }
+
+    const t = initTRPC.context<Context>().create();
+    let records: LogRecord[];
+
+    const createProcedure = () => loggedProcedure(t.procedure.use(createRequestIdMiddleware({ responseHeader: 'x-request-id' })), {
+        pipelines: [{
+            name: 'capture',
+            level: 'debug',
+            transport: defineTransport(record => { records.push(record); })
+        }]
+    });
+
+    beforeEach(() => {
+        records = [];
+    });
+
+    it('should read the id from the first matching header', () => {
+        expect(readRequestId({ 'x-correlation-id': 'corr-1', 'x-request-id': 'req-1' }, ['x-request-id', 'x-correlation-id'])).toBe('req-1');
+        expect(readRequestId({ 'x-correlation-id': ['corr-1', 'corr-2'] }, ['x-request-id', 'x-correlation-id'])).toBe('corr-1');
+        expect(readRequestId(new Headers({ 'X-Request-Id': 'fetch-1' }), ['x-request-id'])).toBe('fetch-1');
+        expect(readRequestId({}, ['x-request-id'])).toBeUndefined();
+    });
+
+    it('should take the trace id from a traceparent header', () => {
+        const traceparent = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+        expect(readRequestId({ traceparent }, ['traceparent'])).toBe('4bf92f3577b34da6a3ce929d0e0e4736');
+    });
+
+    it('should ignore ids that could inject text into logs', () => {
+        expect(readRequestId({ 'x-request-id': 'abc\n[ERROR] forged' }, ['x-request-id'])).toBeUndefined();
+        expect(readRequestId({ 'x-request-id': 'a'.repeat(200) }, ['x-request-id'])).toBeUndefined();
+    });
+
+    it('should tag every record of a request and echo the id', async () => {
+        const setHeader = jest.fn();
+        const router = t.router({
+            get: createProcedure().withLogger('user.get').query(({ ctx }) => {
+                ctx.logger.info('From ctx');
+                getLogger().debug('From a service');
+                return ctx.requestId;
+            })
+        });
+
+        const requestId = await t.createCallerFactory(router)({
+            req: { headers: { 'x-request-id': 'req-42' } },
+            res: { headersSent: false, setHeader }
+        }).get();
+
+        expect(requestId).toBe('req-42');
+        expect(records.map(record => record.requestId)).toEqual(['req-42', 'req-42']);
+        expect(setHeader).toHaveBeenCalledWith('x-request-id', 'req-42');
+    });
+
+    it('should generate an id when no header carries one', async () => {
+        const router = t.router({
+            get: createProcedure().withLogger('user.get').query(({ ctx }) => ctx.requestId)
+        });
+        const caller = t.createCallerFactory(router)({ req: { headers: {} } });
+
+        const first = await caller.get();
+        const second = await caller.get();
+
+        expect(first).toMatch(/^[0-9a-f-]{36}$/);
+        expect(second).not.toBe(first);
+    });
+
+    it('should also work when added after withLogger', async () => {
+        const procedure = loggedProcedure(t.procedure, {
+            pipelines: [{ name: 'capture', transport: defineTransport(record => { records.push(record); }) }]
+        });
+        const router = t.router({
+            get: procedure.withLogger('user.get')
+                .use(createRequestIdMiddleware({ generateId: () => 'generated' }))
+                .query(({ ctx }) => ctx.logger.info('Loaded'))
+        });
+
+        await t.createCallerFactory(router)({}).get();
+
+        expect(records[0].requestId).toBe('generated');
+        expect(records[0].name).toBe('user.get');
+    });
+
+    it('should make logging and performance records joinable on the id', async () => {
+        const router = t.router({
+            get: createProcedure().withLogger('user.get')
+                .use(createLoggingMiddleware({ includeBody: false }))
+                .query(({ ctx }) => {
+                    const monitor = createPerformanceMonitor(ctx.logger);
+                    monitor.end(monitor.start('user.get'));
+                    return 'ok';
+                })
+        });
+
+        await t.createCallerFactory(router)({ req: { headers: { 'x-request-id': 'req-7' } } }).get();
+
+        expect(records.map(record => record.message)).toEqual([
+            'Request started',
+            'Procedure user.get completed',
+            'Request completed'
+        ]);
+        expect(records.every(record => record.requestId === 'req-7' && record.meta?.requestId === 'req-7')).toBe(true);
+    });
+
+    it('should add the id to error records', async () => {
+        const logger = { error: jest.fn() } as unknown as Logger;
+        const middleware = createErrorHandlingMiddleware();
+
+        await expect(middleware({
+            ctx: { logger, requestId: 'req-8' },
+            path: 'user.get',
+            type: 'query',
+            next: jest.fn().mockRejectedValue(new Error('Boom'))
+        })).rejects.toThrow('Boom');
+
+        expect(logger.error).toHaveBeenCalledWith('Procedure error', expect.objectContaining({ requestId: 'req-8' }));
+    });
+
+    it('should give the rate limiter a per-request key', async () => {
+        const router = t.router({
+            get: createProcedure().withLogger('user.get')
+                .use(createRateLimitingMiddleware({ windowMs: 60000, maxRequests: 1 }))
+                .query(() => 'ok')
+        });
+        const caller = t.createCallerFactory(router);
+
+        await caller({ req: { headers: { 'x-request-id': 'a' } } }).get();
+        await expect(caller({ req: { headers: { 'x-request-id': 'b' } } }).get()).resolves.toBe('ok');
+        await expect(caller({ req: { headers: { 'x-request-id': 'a' } } }).get()).rejects.toThrow('Rate limit exceeded');
+    });
+});
+
+describe('Procedure logging overrides', () => {
+    const t = initTRPC.context<{ logger?: Logger }>().meta<LoggingMeta>().create();
+    let records: LogRecord[];
+
+    const procedure = loggedProcedure(t.procedure, {
+        pipelines: [{
+            name: 'capture',
+            level: 'trace',
+            transport: defineTransport(record => { records.push(record); })
+        }]
+    }).withLogger('api');
+    const middleware = createComprehensiveMiddleware({
+        logging: { includeBody: true, maskSensitiveFields: ['password'] },
+        errorHandling: { logAllErrors: true, logValidationErrors: true, logAuthErrors: true, includeStack: false },
+        performance: { enabled: true, logSlowQueries: true, slowQueryThreshold: 60000, logMemoryUsage: false }
+    });
+
+    const summarize = () => records.map(record => [record.level, record.message]);
+
+    beforeEach(() => {
+        records = [];
+    });
+
+    it('should merge procedure meta over the middleware config', async () => {
+        const router = t.router({
+            login: procedure
+                .input(z.object({ password: z.string() }))
+                .meta({ logging: { includeBody: false, levels: { request: 'debug', response: 'debug' } } })
+                .use(middleware)
+                .mutation(() => 'ok'),
+            signUp: procedure
+                .input(z.object({ email: z.string(), password: z.string() }))
+                .meta({ logging: { maskSensitiveFields: ['email'] } })
+                .use(middleware)
+                .mutation(() => 'ok'),
+            autocomplete: procedure
+                .meta({ logging: { slowQueryThreshold: -1, levels: { slow: 'info' } } })
+                .use(middleware)
+                .query(() => [])
+        });
+        const caller = t.createCallerFactory(router)({});
+
+        await caller.login({ password: 'hunter2' });
+        expect(summarize()).toEqual([['debug', 'Request started'], ['debug', 'Procedure completed'], ['debug', 'Request completed']]);
+        expect(records[0].meta?.body).toBeUndefined();
+
+        records = [];
+        await caller.signUp({ email: 'ada@example.com', password: 'hunter2' });
+        expect(records[0].meta?.body).toEqual({ email: '[MASKED]', password: 'hunter2' });
+
+        records = [];
+        await caller.autocomplete();
+        expect(summarize()).toContainEqual(['info', 'Slow query detected']);
+    });
+
+    it('should leave out or mask the input of performance records', async () => {
+        const router = t.router({
+            login: procedure
+                .input(z.object({ pin: z.string() }))
+                .meta({ logging: { includeBody: false, slowQueryThreshold: -1 } })
+                .use(middleware)
+                .mutation(() => 'ok'),
+            transfer: procedure
+                .input(z.object({ iban: z.string(), amount: z.number() }))
+                .meta({ logging: { maskSensitiveFields: ['iban'], slowQueryThreshold: -1 } })
+                .use(middleware)
+                .mutation(() => {
+                    throw new Error('Declined');
+                })
+        });
+        const caller = t.createCallerFactory(router)({});
+        const performanceRecords = () => records.filter(record => record.message === 'Slow query detected' || record.message === 'Procedure failed');
+
+        await caller.login({ pin: '1234' });
+        expect(performanceRecords()).toHaveLength(1);
+        expect(performanceRecords()[0].meta?.input).toBeUndefined();
+
+        records = [];
+        await expect(caller.transfer({ iban: 'DE89370400440532013000', amount: 10 })).rejects.toThrow('Declined');
+        expect(performanceRecords()[0].meta?.input).toEqual({ iban: '[MASKED]', amount: 10 });
+    });
+
+    it('should turn every middleware off for a procedure', async () => {
+        const router = t.router({
+            health: procedure.meta({ logging: { enabled: false } }).use(middleware).query(() => {
+                throw new Error('Down');
+            })
+        });
+
+        await expect(t.createCallerFactory(router)({}).health()).rejects.toThrow('Down');
+
+        expect(records).toEqual([]);
+    });
+
+    it('should sample request records but keep failures', async () => {
+        const random = jest.spyOn(Math, 'random').mockReturnValue(0.5);
+        const router = t.router({
+            search: procedure.meta({ logging: { sampleRate: 0.1 } }).use(middleware).query(() => 'ok'),
+            fail: procedure.meta({ logging: { sampleRate: 0.1 } }).use(middleware).query(() => {
+                throw new Error('Boom');
+            })
+        });
+        const caller = t.createCallerFactory(router)({});
+
+        try {
+            await caller.search();
+            expect(records).toEqual([]);
+
+            await expect(caller.fail()).rejects.toThrow('Boom');
+            expect(summarize()).toEqual([['error', 'Procedure failed'], ['error', 'Procedure error'], ['error', 'Request failed']]);
+        } finally {
+            random.mockRestore();
+        }
+    });
+});
+
+describe('Combined middlewares', () => {
+    const t = initTRPC.context<{ logger?: Logger; steps?: string[] }>().create();
+    let records: LogRecord[];
+
+    const procedure = loggedProcedure(t.procedure, {
+        pipelines: [{
+            name: 'capture',
+            level: 'trace',
+            transport: defineTransport(record => { records.push(record); })
+        }]
+    }).withLogger('api');
+
+    beforeEach(() => {
+        records = [];
+    });
+
+    it('should run each middleware once in order and pass ctx along', async () => {
+        const calls: string[] = [];
+        const step = (name: string) => async (opts: any) => {
+            calls.push(name);
+            return opts.next({ ctx: { steps: [...(opts.ctx.steps ?? []), name] } });
+        };
+        const router = t.router({
+            get: procedure.use(combineMiddlewares(step('first'), step('second'), step('third'))).query(({ ctx }) => ctx.steps)
+        });
+
+        await expect(t.createCallerFactory(router)({}).get()).resolves.toEqual(['first', 'second', 'third']);
+        expect(calls).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should run createComprehensiveMiddleware once per call', async () => {
+        const resolver = jest.fn(() => 'ok');
+        const router = t.router({
+            get: procedure
+                .use(createComprehensiveMiddleware({
+                    logging: { includeBody: false },
+                    errorHandling: { logAllErrors: true, logValidationErrors: true, logAuthErrors: true, includeStack: false },
+                    rateLimiting: { windowMs: 60000, maxRequests: 2, keyGenerator: () => 'client' },
+                    performance: { enabled: true, logSlowQueries: false, slowQueryThreshold: 60000, logMemoryUsage: false }
+                }))
+                .query(resolver)
+        });
+        const caller = t.createCallerFactory(router)({});
+
+        await expect(caller.get()).resolves.toBe('ok');
+        expect(resolver).toHaveBeenCalledTimes(1);
+        expect(records.map(record => record.message)).toEqual(['Request started', 'Procedure completed', 'Request completed']);
+
+        // Counted once per call, so the limit is reached on the third call and not before
+        await expect(caller.get()).resolves.toBe('ok');
+        await expect(caller.get()).rejects.toThrow('Rate limit exceeded');
+        expect(resolver).toHaveBeenCalledTimes(2);
+    });
+});
@@ -1,5 +1,38 @@
 import { createPerformanceMonitor, PerformanceMonitor, performanceMiddleware } from '../performance';
-import type { Logger } from '../index';
+import { createLogger } from '../logger';
+import { createLevelController, levelMatches, type LogLevel } from '../levels';
+import { defineFormat, defineTransport, toRecordFormat, type LogRecord } from '../record';
+import type { Logger, LoggerPipeline, PipelineConfig } from '../index';
+
+// Runs fn the given number of times
+function repeat(iterations: number, fn: () => void): void {
+    for (let i = 0; i < iterations; i++) {
+        fn();
+    }
+}
+
+// Runs fn the given number of times and returns the elapsed milliseconds
+function benchmark(iterations: number, fn: () => void): number {
+    const start = process.hrtime.bigint();
+    repeat(iterations, fn);
+    return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+// The per-call dispatch the logger used before precompiled tables: filter every pipeline and format for each
+function createNaiveLogMethod(config: PipelineConfig, level: LogLevel) {
+    return (message: string) => {
+        const levelPipelines = config.pipelines.filter(pipeline =>
+            levelMatches(level, pipeline.level || config.defaultLevel || 'info', pipeline.levelMatch || 'threshold'));
+        if (levelPipelines.length === 0) {
+            return;
+        }
+        const record: LogRecord = { level, severity: 0, timestamp: new Date(), message };
+        for (const pipeline of levelPipelines) {
+            const formatted = toRecordFormat(pipeline.format!)(record);
+            (pipeline.transport as (record: LogRecord, formatted: string) => void)(record, formatted);
+        }
+    };
+}
 
 describe('Performance Monitoring', () => {
     let mockLogger: Logger;
@@ -7,10 +40,14 @@ describe('Performance Monitoring', () => {
 
     beforeEach(() => {
         mockLogger = {
+            fatal: jest.fn(),
             error: jest.fn(),
             warn: jest.fn(),
             info: jest.fn(),
-            debug: jest.fn()
+            debug: jest.fn(),
+            trace: jest.fn(),
+            isLevelEnabled: jest.fn(),
+            child: jest.fn()
         };
     });
 
@@ -185,4 +222,117 @@ describe('Performance Monitoring', () => {
             await expect(middleware(mockOpts)).rejects.toThrow('Test error');
         });
     });
-}); 
\ No newline at end of file
+
+    describe('Logger dispatch', () => {
+        const ITERATIONS = 50000;
+
+        const createConfig = (format: (record: LogRecord) => string): PipelineConfig => {
+            const pipelines: LoggerPipeline[] = [];
+            for (let i = 0; i < 10; i++) {
+                pipelines.push({
+                    name: `pipeline-${i}`,
+                    level: 'info',
+                    format: defineFormat(format),
+                    transport: defineTransport(() => undefined)
+                });
+            }
+            return { pipelines };
+        };
+
+        it('should skip disabled levels without matching levels, formatting or delivering', () => {
+            const format = jest.fn((record: LogRecord) => record.message);
+            const config = createConfig(format);
+            const levels = createLevelController(config);
+            const getLevel = jest.spyOn(levels, 'getLevel');
+            const logger = createLogger(config, 'bench', { levels });
+            const lookups = getLevel.mock.calls.length;
+
+            repeat(ITERATIONS, () => logger.debug('disabled'));
+
+            // Levels were resolved once per pipeline when the logger was created
+            expect(lookups).toBe(config.pipelines.length * 6);
+            expect(getLevel).toHaveBeenCalledTimes(lookups);
+            expect(format).not.toHaveBeenCalled();
+        });
+
+        it('should format once per record for pipelines sharing a format', () => {
+            const format = jest.fn((record: LogRecord) => `${record.level} ${record.message}`);
+            const config = createConfig(format);
+            // Every pipeline shares the same format function
+            const sharedFormat = config.pipelines[0].format;
+            config.pipelines.forEach(pipeline => { pipeline.format = sharedFormat; });
+
+            const logger = createLogger(config, 'bench');
+            const naiveInfo = createNaiveLogMethod(config, 'info');
+
+            repeat(ITERATIONS / 10, () => naiveInfo('enabled'));
+            const naiveCalls = format.mock.calls.length;
+            format.mockClear();
+
+            repeat(ITERATIONS / 10, () => logger.info('enabled'));
+            const compiledCalls = format.mock.calls.length;
+
+            expect(naiveCalls).toBe(ITERATIONS);
+            expect(compiledCalls).toBe(ITERATIONS / 10);
+        });
+
+        // Timings vary with the machine, so they are reported and the tests above assert the work skipped
+        it('should report the time of naive and precompiled dispatch', () => {
+            const config = createConfig(record => record.message);
+            const sharedFormat = config.pipelines[0].format;
+            config.pipelines.forEach(pipeline => { pipeline.format = sharedFormat; });
+            const logger = createLogger(config, 'bench');
+            const naiveDebug = createNaiveLogMethod(config, 'debug');
+            const naiveInfo = createNaiveLogMethod(config, 'info');
+
+            // Warm up both paths before timing them
+            benchmark(1000, () => naiveDebug('disabled'));
+            benchmark(1000, () => logger.debug('disabled'));
+            benchmark(100, () => naiveInfo('enabled'));
+            benchmark(100, () => logger.info('enabled'));
+
+            const disabled = [benchmark(ITERATIONS, () => naiveDebug('disabled')), benchmark(ITERATIONS, () => logger.debug('disabled'))];
+            const enabled = [benchmark(ITERATIONS / 10, () => naiveInfo('enabled')), benchmark(ITERATIONS / 10, () => logger.info('enabled'))];
+
+            console.log([
+                `disabled level x${ITERATIONS}: naive ${disabled[0].toFixed(1)}ms, precompiled ${disabled[1].toFixed(1)}ms`,
+                `shared format x${ITERATIONS / 10}: naive ${enabled[0].toFixed(1)}ms, precompiled ${enabled[1].toFixed(1)}ms`
+            ].join('\n'));
+        });
+
+        it('should rebuild dispatch tables only when runtime levels change', () => {
+            const config = createConfig(record => record.message);
+            const levels = createLevelController(config);
+            const getLevel = jest.spyOn(levels, 'getLevel');
+            const logger = createLogger(config, 'bench', { levels });
+            const lookups = getLevel.mock.calls.length;
+
+            repeat(1000, () => logger.info('enabled'));
+            expect(getLevel).toHaveBeenCalledTimes(lookups);
+
+            levels.setLevel('debug');
+            logger.debug('now enabled');
+            expect(getLevel.mock.calls.length).toBeGreaterThan(lookups);
+            expect(logger.isLevelEnabled('debug')).toBe(true);
+        });
+
+        it('should pick up pipelines and levels changed after the logger was created', () => {
+            const config = createConfig(record => record.message);
+            const logger = createLogger(config, 'bench');
+            const transport = jest.fn();
+
+            expect(logger.isLevelEnabled('debug')).toBe(false);
+
+            config.pipelines[0].level = 'debug';
+            expect(logger.isLevelEnabled('debug')).toBe(true);
+
+            config.pipelines.push({ name: 'added', level: 'trace', transport: defineTransport(transport) });
+            logger.trace('reaches the new pipeline');
+            expect(transport).toHaveBeenCalledTimes(1);
+
+            config.pipelines.pop();
+            logger.trace('dropped with the pipeline');
+            expect(transport).toHaveBeenCalledTimes(1);
+        });
+    });
+});
@@ -0,0 +1,231 @@
+import {
+    loggedProcedure,
+    createLogger,
+    defineFormat,
+    defineTransport,
+    jsonFormat,
+    winstonTransport,
+    pinoTransport,
+    sentryTransport,
+    datadogTransport,
+    jsonTransport,
+    httpTransport,
+    cloudWatchTransport,
+    elasticsearchTransport,
+    redisTransport,
+    type Logger,
+    type LogRecord
+} from '../index';
+import { testFormat, testTransport, validatePipeline } from '../validation';
+import { initTRPC } from '@trpc/server';
+
+describe('LogRecord pipelines', () => {
+    let records: LogRecord[];
+    let recordTransport: ReturnType<typeof defineTransport>;
+
+    beforeEach(() => {
+        records = [];
+        recordTransport = defineTransport(record => {
+            records.push(record);
+        });
+    });
+
+    it('should pass a typed record to record-based transports', async () => {
+        const t = initTRPC.context<{ logger?: Logger }>().create();
+        const procedure = loggedProcedure(t.procedure, {
+            pipelines: [{ name: 'records', level: 'debug', transport: recordTransport }]
+        });
+        const error = new Error('boom');
+        const router = t.router({
+            user: t.router({
+                get: procedure.withLogger('user.get').query(({ ctx }) => {
+                    ctx.logger.warn('Lookup failed', { requestId: 'req-1', error });
+                    return null;
+                })
+            })
+        });
+
+        await t.createCallerFactory(router)({}).user.get();
+
+        expect(records).toHaveLength(1);
+        expect(records[0]).toEqual({
+            level: 'warn',
+            severity: 40,
+            timestamp: expect.any(Date),
+            name: 'user.get',
+            path: 'user.get',
+            type: 'query',
+            message: 'Lookup failed',
+            meta: { requestId: 'req-1', error: expect.objectContaining({ name: 'Error', message: 'boom' }) },
+            error,
+            requestId: 'req-1'
+        });
+    });
+
+    it('should only take a string request id from meta', () => {
+        const logger = createLogger({ pipelines: [{ name: 'records', transport: recordTransport }] }, 'svc');
+
+        logger.info('numeric', { requestId: 42 });
+        logger.info('object', { requestId: { id: 'req-1' } });
+        logger.info('string', { requestId: 'req-2' });
+
+        expect(records.map(record => record.requestId)).toEqual([undefined, undefined, 'req-2']);
+        expect(records[0].meta).toEqual({ requestId: 42 });
+    });
+
+    it('should pass the formatted message alongside the record', () => {
+        const transport = jest.fn();
+        const format = defineFormat(record => `${record.level}:${record.message}`);
+        const logger = createLogger({ pipelines: [{ name: 'test', format, transport: defineTransport(transport) }] }, 'svc');
+
+        logger.error('failed');
+
+        expect(transport).toHaveBeenCalledWith(expect.objectContaining({ level: 'error' }), 'error:failed');
+    });
+
+    it('should adapt legacy formats and transports', () => {
+        const transport = jest.fn();
+        const format = jest.fn((name: string | undefined, message: string) => `${name}>${message}`);
+        const logger = createLogger({ pipelines: [{ name: 'legacy', format, transport }] }, 'svc');
+
+        logger.info('hello', { a: 1 });
+
+        expect(format).toHaveBeenCalledWith('svc', 'hello', { a: 1 });
+        expect(transport).toHaveBeenCalledWith('svc', 'svc>hello', { a: 1 });
+    });
+
+    it('should mix legacy formats with record transports', () => {
+        const logger = createLogger({
+            pipelines: [{ name: 'mixed', format: (name, message) => `${message}!`, transport: recordTransport }]
+        }, 'svc');
+
+        logger.info('hello');
+
+        expect(records[0].message).toBe('hello');
+    });
+
+    it('should include level and request fields in jsonFormat', () => {
+        const output = JSON.parse(jsonFormat({
+            level: 'error',
+            severity: 50,
+            timestamp: new Date('2025-01-01T00:00:00.000Z'),
+            name: 'user.get',
+            path: 'user.get',
+            message: 'failed',
+            requestId: 'req-1'
+        }));
+
+        expect(output).toEqual({
+            timestamp: '2025-01-01T00:00:00.000Z',
+            level: 'error',
+            name: 'user.get',
+            path: 'user.get',
+            requestId: 'req-1',
+            message: 'failed'
+        });
+    });
+
+    describe('library transports', () => {
+        const logAtEveryLevel = (transport: any) => {
+            const logger = createLogger({ pipelines: [{ name: 'lib', level: 'trace', transport }] }, 'svc');
+            logger.trace('t');
+            logger.warn('w');
+            logger.fatal('f');
+        };
+
+        it('should map levels for winston', () => {
+            const winston = { log: jest.fn() };
+            logAtEveryLevel(winstonTransport(winston));
+
+            expect(winston.log.mock.calls.map(call => call[0].level)).toEqual(['silly', 'warn', 'error']);
+        });
+
+        it('should call the matching pino method', () => {
+            const pino = { trace: jest.fn(), warn: jest.fn(), fatal: jest.fn() };
+            logAtEveryLevel(pinoTransport(pino));
+
+            expect(pino.trace).toHaveBeenCalledTimes(1);
+            expect(pino.warn).toHaveBeenCalledTimes(1);
+            expect(pino.fatal).toHaveBeenCalledTimes(1);
+        });
+
+        it('should map levels for sentry', () => {
+            const sentry = { captureMessage: jest.fn() };
+            logAtEveryLevel(sentryTransport(sentry));
+
+            expect(sentry.captureMessage.mock.calls.map(call => call[1].level)).toEqual(['debug', 'warning', 'fatal']);
+        });
+
+        it('should map levels for datadog', () => {
+            const datadog = { debug: jest.fn(), warn: jest.fn(), error: jest.fn() };
+            logAtEveryLevel(datadogTransport(datadog));
+
+            expect(datadog.debug).toHaveBeenCalledTimes(1);
+            expect(datadog.warn).toHaveBeenCalledTimes(1);
+            expect(datadog.error).toHaveBeenCalledTimes(1);
+        });
+
+        it('should write the request id in every shipping transport', async () => {
+            const record: LogRecord = { level: 'info', severity: 30, timestamp: new Date(), name: 'svc', message: 'hello', requestId: 'abc-123' };
+            const printed: string[] = [];
+            const log = jest.spyOn(console, 'log').mockImplementation(line => { printed.push(line); });
+            const fetchMock = jest.fn().mockResolvedValue({ ok: true });
+            const originalFetch = global.fetch;
+            global.fetch = fetchMock;
+            const cloudWatch = { putLogEvents: jest.fn().mockResolvedValue({}) };
+            const elasticsearch = { index: jest.fn().mockResolvedValue({}) };
+            const redis = { lpush: jest.fn(), expire: jest.fn() };
+            const winston = { log: jest.fn() };
+            const pino = { info: jest.fn() };
+            const sentry = { captureMessage: jest.fn() };
+            const datadog = { info: jest.fn() };
+
+            try {
+                jsonTransport(record, 'hello');
+                for (const transport of [
+                    httpTransport('https://logs.example.com'),
+                    cloudWatchTransport(cloudWatch, 'group', 'stream'),
+                    elasticsearchTransport(elasticsearch, 'logs')
+                ]) {
+                    transport(record, 'hello');
+                    await transport.flush!();
+                }
+                await redisTransport(redis, 'logs')(record, 'hello');
+                winstonTransport(winston)(record, 'hello');
+                pinoTransport(pino)(record, 'hello');
+                sentryTransport(sentry)(record, 'hello');
+                datadogTransport(datadog)(record, 'hello');
+            } finally {
+                log.mockRestore();
+                global.fetch = originalFetch;
+            }
+
+            const shipped = [
+                JSON.parse(printed[0]),
+                JSON.parse(fetchMock.mock.calls[0][1].body),
+                JSON.parse(cloudWatch.putLogEvents.mock.calls[0][0].logEvents[0].message),
+                elasticsearch.index.mock.calls[0][0].body,
+                JSON.parse(redis.lpush.mock.calls[0][1]),
+                winston.log.mock.calls[0][0],
+                pino.info.mock.calls[0][0],
+                sentry.captureMessage.mock.calls[0][1].tags,
+                datadog.info.mock.calls[0][1]
+            ];
+            expect(shipped.map(fields => fields.requestId)).toEqual(Array(shipped.length).fill('abc-123'));
+        });
+    });
+
+    describe('validation', () => {
+        it('should accept both transport and format shapes', () => {
+            expect(validatePipeline({ name: 'records', format: jsonFormat, transport: recordTransport }).isValid).toBe(true);
+            expect(validatePipeline({ name: 'legacy', transport: jest.fn() }).isValid).toBe(true);
+        });
+
+        it('should call record-based functions with a test record', () => {
+            expect(testTransport(recordTransport).isValid).toBe(true);
+            expect(records[0]).toEqual(expect.objectContaining({ level: 'info', message: 'test message' }));
+            expect(testFormat(defineFormat(record => record.level)).isValid).toBe(true);
+            expect(testFormat(defineFormat(() => 42 as any)).isValid).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,133 @@
+import {
+    loggedProcedure,
+    createLogger,
+    createLoggingMiddleware,
+    createRedactor,
+    defineTransport,
+    validatePipeline,
+    type Logger,
+    type LogRecord
+} from '../index';
+import { initTRPC } from '@trpc/server';
+import { z } from 'zod';
+
+describe('Redaction', () => {
+    it('should redact plain keys at any depth, case-insensitively', () => {
+        const redact = createRedactor({ paths: ['password', 'authorization'] });
+
+        expect(redact({
+            password: 'a',
+            user: { Password: 'b', profile: { name: 'Ada' } },
+            headers: { Authorization: 'Bearer x' },
+            list: [{ password: 'c' }]
+        })).toEqual({
+            password: '[REDACTED]',
+            user: { Password: '[REDACTED]', profile: { name: 'Ada' } },
+            headers: { Authorization: '[REDACTED]' },
+            list: [{ password: '[REDACTED]' }]
+        });
+    });
+
+    it('should follow nested paths and wildcards', () => {
+        const redact = createRedactor({ paths: ['user.ssn', '*.token', 'items[*].card.number', 'rows[1]', 'a.**.secret'] });
+
+        expect(redact({
+            ssn: 'kept at the top level',
+            user: { ssn: '123-45-6789' },
+            session: { token: 't1' },
+            nested: { deeper: { token: 'kept, two levels down' } },
+            items: [{ card: { number: '4111', brand: 'visa' } }, { card: { number: '5500' } }],
+            rows: ['first', 'second'],
+            a: { secret: 1, b: { c: { secret: 2 } } }
+        })).toEqual({
+            ssn: 'kept at the top level',
+            user: { ssn: '[REDACTED]' },
+            session: { token: '[REDACTED]' },
+            nested: { deeper: { token: 'kept, two levels down' } },
+            items: [{ card: { number: '[REDACTED]', brand: 'visa' } }, { card: { number: '[REDACTED]' } }],
+            rows: ['first', '[REDACTED]'],
+            a: { secret: '[REDACTED]', b: { c: { secret: '[REDACTED]' } } }
+        });
+    });
+
+    it('should match keys against regex patterns', () => {
+        const redact = createRedactor({ paths: [/^api[-_]?key$/i] });
+
+        expect(redact({ apiKey: 'a', config: { API_KEY: 'b', 'api-key': 'c', keyboard: 'd' } })).toEqual({
+            apiKey: '[REDACTED]',
+            config: { API_KEY: '[REDACTED]', 'api-key': '[REDACTED]', keyboard: 'd' }
+        });
+    });
+
+    it('should honour caseSensitive, custom censors and removal', () => {
+        expect(createRedactor({ paths: ['token'], caseSensitive: true })({ token: 'a', Token: 'b' }))
+            .toEqual({ token: '[REDACTED]', Token: 'b' });
+        expect(createRedactor({ paths: ['card'], censor: (value, path) => `${path.join('.')}:${String(value).slice(-4)}` })({ pay: { card: '4111111111111111' } }))
+            .toEqual({ pay: { card: 'pay.card:1111' } });
+        expect(createRedactor({ paths: ['password', 'list[0]'], remove: true })({ password: 'a', name: 'b', list: [1, 2] }))
+            .toEqual({ name: 'b', list: [2] });
+    });
+
+    it('should copy only what it changes and survive cycles', () => {
+        const untouched = { name: 'Ada' };
+        const value: any = { untouched, user: { password: 'x' }, when: new Date(0) };
+        value.self = value;
+
+        const redacted = createRedactor({ paths: ['password'] })(value);
+
+        expect(redacted).not.toBe(value);
+        expect(redacted.untouched).toBe(untouched);
+        expect(redacted.when).toBe(value.when);
+        expect(redacted.user.password).toBe('[REDACTED]');
+        expect(value.user.password).toBe('x');
+    });
+
+    it('should reject invalid paths', () => {
+        expect(() => createRedactor({ paths: ['user[abc'] })).toThrow('Invalid redact path "user[abc"');
+    });
+
+    it('should redact records logged through a pipeline', () => {
+        const records: LogRecord[] = [];
+        const plain: LogRecord[] = [];
+        const logger = createLogger({
+            pipelines: [
+                { name: 'redacted', redact: { paths: ['password', 'headers.cookie'], remove: true }, transport: defineTransport(record => { records.push(record); }) },
+                { name: 'plain', transport: defineTransport(record => { plain.push(record); }) }
+            ]
+        });
+
+        logger.info('Signed in', { user: { name: 'Ada', password: 'hunter2' }, headers: { Cookie: 'sid=1' } });
+
+        expect(records[0].meta).toEqual({ user: { name: 'Ada' }, headers: {} });
+        expect(plain[0].meta?.user.password).toBe('hunter2');
+    });
+
+    it('should validate pipeline redaction config', () => {
+        const transport = () => undefined;
+
+        expect(validatePipeline({ name: 'p', transport, redact: { paths: ['password', /token/i] } }).isValid).toBe(true);
+        expect(validatePipeline({ name: 'p', transport, redact: { paths: [''] } }).isValid).toBe(false);
+    });
+
+    it('should mask nested request bodies and headers in the logging middleware', async () => {
+        const t = initTRPC.context<{ logger?: Logger; req?: { headers: Record<string, string> } }>().create();
+        const records: LogRecord[] = [];
+        const router = t.router({
+            login: loggedProcedure(t.procedure, {
+                pipelines: [{ name: 'capture', transport: defineTransport(record => { records.push(record); }) }]
+            }).withLogger('auth.login')
+                .input(z.object({ user: z.object({ email: z.string(), password: z.string() }) }))
+                .use(createLoggingMiddleware({ includeHeaders: true, logResponses: false }))
+                .mutation(() => 'ok')
+        });
+
+        await t.createCallerFactory(router)({
+            req: { headers: { authorization: 'Bearer abc', 'x-api-key': 'k', accept: 'json' } }
+        }).login({ user: { email: 'ada@example.com', password: 'hunter2' } });
+
+        expect(records[0].meta).toEqual(expect.objectContaining({
+            headers: { authorization: '[MASKED]', 'x-api-key': '[MASKED]', accept: 'json' },
+            body: { user: { email: 'ada@example.com', password: '[MASKED]' } }
+        }));
+    });
+});
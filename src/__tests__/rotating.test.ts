@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createLogger, defineFormat, rotatingFileTransport, type LogRecord } from '../index';
+import { useFakeClock } from '../testing';
+
+describe('Rotating file transport', () => {
+    let dir: string;
+
+    const record = (message: string, timestamp = '2024-06-01T12:00:00.000Z'): LogRecord => ({
+        level: 'info',
+        severity: 30,
+        timestamp: new Date(timestamp),
+        message
+    });
+    const files = () => fs.readdirSync(dir).sort();
+    const read = (name: string) => fs.readFileSync(path.join(dir, name), 'utf8');
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trpc-logger-rotating-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should rotate before a record would exceed maxSize', async () => {
+        const transport = rotatingFileTransport(path.join(dir, 'app.log'), { maxSize: 10 });
+
+        for (const message of ['one', 'two', 'three', 'four', 'five']) {
+            transport(record(message), message);
+        }
+        await transport.close!();
+
+        expect(files()).toEqual(['app-2024-06-01.1.log', 'app-2024-06-01.log', 'app.log']);
+        expect(['app-2024-06-01.log', 'app-2024-06-01.1.log', 'app.log'].map(read)).toEqual(['one\ntwo\n', 'three\n', 'four\nfive\n']);
+    });
+
+    it('should rotate hourly with the time of the records', async () => {
+        const transport = rotatingFileTransport(path.join(dir, 'app.log'), { interval: 'hourly' });
+        const logger = createLogger({ pipelines: [{ name: 'file', format: defineFormat(record => record.message), transport }] });
+        const clock = useFakeClock('2024-06-01T12:59:00.000Z');
+
+        try {
+            logger.info('12:59');
+            clock.tick(60_000);
+            logger.info('13:00');
+            logger.info('13:00 again');
+            clock.set('2024-06-02T09:30:00.000Z');
+            logger.info('next day');
+        } finally {
+            clock.restore();
+        }
+        await transport.close!();
+
+        expect(files()).toEqual(['app-2024-06-01-12.log', 'app-2024-06-01-13.log', 'app.log']);
+        expect(read('app-2024-06-01-13.log')).toBe('13:00\n13:00 again\n');
+        expect(read('app.log')).toBe('next day\n');
+    });
+
+    it('should rotate an existing file from an earlier day on the first record', async () => {
+        const filename = path.join(dir, 'app.log');
+        fs.writeFileSync(filename, 'yesterday\n');
+        const yesterday = new Date('2024-05-31T18:00:00.000Z');
+        fs.utimesSync(filename, yesterday, yesterday);
+
+        const transport = rotatingFileTransport(filename, { interval: 'daily' });
+        await transport(record('today'), 'today');
+        await transport.close!();
+
+        expect(files()).toEqual(['app-2024-05-31.log', 'app.log']);
+        expect(read('app.log')).toBe('today\n');
+    });
+
+    it('should gzip rotated files', async () => {
+        const transport = rotatingFileTransport(path.join(dir, 'app.log'), { interval: 'daily', compress: true });
+
+        transport(record('first'), 'first');
+        transport(record('second', '2024-06-02T00:00:00.000Z'), 'second');
+        await transport.flush!();
+
+        expect(files()).toEqual(['app-2024-06-01.log.gz', 'app.log']);
+        expect(zlib.gunzipSync(fs.readFileSync(path.join(dir, 'app-2024-06-01.log.gz'))).toString()).toBe('first\n');
+        await transport.close!();
+    });
+
+    it('should keep at most maxFiles rotated files', async () => {
+        const transport = rotatingFileTransport(path.join(dir, 'app.log'), { interval: 'daily', compress: true, maxFiles: 2 });
+        fs.writeFileSync(path.join(dir, 'other.log'), 'not rotated by this transport\n');
+
+        for (let day = 1; day <= 5; day++) {
+            const message = `day ${day}`;
+            transport(record(message, `2024-06-0${day}T08:00:00.000Z`), message);
+        }
+        await transport.close!();
+
+        expect(files()).toEqual(['app-2024-06-03.log.gz', 'app-2024-06-04.log.gz', 'app.log', 'other.log']);
+    });
+
+    it('should delete rotated files older than maxAge', async () => {
+        const old = path.join(dir, 'app-2024-01-01.log');
+        fs.writeFileSync(old, 'old\n');
+        const lastWeek = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+        fs.utimesSync(old, lastWeek, lastWeek);
+
+        const transport = rotatingFileTransport(path.join(dir, 'app.log'), { maxSize: 10, maxAge: 24 * 60 * 60 * 1000 });
+        transport(record('first'), 'first');
+        transport(record('second'), 'second');
+        await transport.close!();
+
+        expect(files()).toEqual(['app-2024-06-01.log', 'app.log']);
+    });
+
+    it('should not lose or reorder records written concurrently across rotations', async () => {
+        const transport = rotatingFileTransport(path.join(dir, 'app.log'), { maxSize: 100 });
+        const messages = Array.from({ length: 200 }, (_, i) => `record ${String(i).padStart(3, '0')}`);
+
+        await Promise.all(messages.map(message => transport(record(message), message)));
+        await transport.close!();
+
+        const counter = (name: string) => Number(/\.(\d+)\.log$/.exec(name)?.[1] ?? 0);
+        const rotated = files().filter(name => name !== 'app.log').sort((a, b) => counter(a) - counter(b));
+        const contents = [...rotated, 'app.log'].map(read);
+
+        expect(contents.join('').split('\n').filter(Boolean)).toEqual(messages);
+        expect(contents.every(content => Buffer.byteLength(content) <= 100)).toBe(true);
+    });
+
+    it('should reject writes when the directory is missing', async () => {
+        const transport = rotatingFileTransport(path.join(dir, 'missing', 'app.log'), { maxSize: 100 });
+
+        await expect(transport(record('lost'), 'lost')).rejects.toThrow();
+        await expect(transport.close!()).resolves.toBeUndefined();
+    });
+});
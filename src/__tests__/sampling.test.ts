@@ -0,0 +1,143 @@
+import { createLogger, createSampler, defineTransport, type LogRecord } from '../index';
+import { validatePipeline } from '../validation';
+
+describe('Sampling', () => {
+    const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+        level: 'info',
+        severity: 30,
+        timestamp: new Date(),
+        name: 'user.list',
+        message: 'Request started',
+        ...overrides
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.useRealTimers();
+    });
+
+    it('should keep a random share of records', () => {
+        const sampler = createSampler({ rate: 0.25 });
+        const random = jest.spyOn(Math, 'random');
+
+        random.mockReturnValueOnce(0.1);
+        expect(sampler(record())).toBe(0.25);
+
+        random.mockReturnValueOnce(0.9);
+        expect(sampler(record())).toBeUndefined();
+    });
+
+    it('should never sample out errors by default', () => {
+        const sampler = createSampler({ rate: 0 });
+
+        expect(sampler(record({ level: 'error', severity: 50 }))).toBe(1);
+        expect(sampler(record({ level: 'fatal', severity: 60 }))).toBe(1);
+        expect(sampler(record({ level: 'warn', severity: 40 }))).toBeUndefined();
+    });
+
+    it('should sample errors when alwaysKeep is disabled', () => {
+        const sampler = createSampler({ rate: 0, alwaysKeep: false });
+
+        expect(sampler(record({ level: 'error', severity: 50 }))).toBeUndefined();
+    });
+
+    it('should keep every record of a sampled request', () => {
+        const sampler = createSampler({ rate: 0.5, by: 'requestId' });
+        const requestIds = Array.from({ length: 50 }, (_, i) => `req-${i}`);
+
+        const kept = requestIds.filter(requestId => sampler(record({ requestId })) !== undefined);
+
+        expect(kept.length).toBeGreaterThan(0);
+        expect(kept.length).toBeLessThan(requestIds.length);
+        for (const requestId of requestIds) {
+            const first = sampler(record({ requestId, message: 'Request started' }));
+            const second = sampler(record({ requestId, message: 'Request completed' }));
+            expect(first).toBe(second);
+        }
+    });
+
+    it('should cap records per second for each key', () => {
+        jest.useFakeTimers({ now: 0 });
+        const sampler = createSampler({ perSecond: 2 });
+
+        const results = [1, 2, 3, 4].map(() => sampler(record()));
+        expect(results).toEqual([1, 1, undefined, undefined]);
+        expect(sampler(record({ message: 'Request completed' }))).toBe(1);
+
+        // The next window reports the share kept in the previous one
+        jest.setSystemTime(1000);
+        expect(sampler(record())).toBe(0.5);
+    });
+
+    it('should report perSecond rates one window late', () => {
+        jest.useFakeTimers({ now: 0 });
+        const sampler = createSampler({ perSecond: 1 });
+
+        // Nothing is known about the first window yet, so its kept record claims a rate of 1
+        expect([1, 2, 3, 4].map(() => sampler(record()))).toEqual([1, undefined, undefined, undefined]);
+
+        jest.setSystemTime(1000);
+        expect([1, 2].map(() => sampler(record()))).toEqual([0.25, undefined]);
+
+        // After an idle second the rate starts over
+        jest.setSystemTime(3000);
+        expect([1, 2].map(() => sampler(record()))).toEqual([1, undefined]);
+    });
+
+    it('should support per-procedure budgets', () => {
+        jest.useFakeTimers({ now: 0 });
+        const sampler = createSampler({ perSecond: 1, key: 'name' });
+
+        expect(sampler(record({ message: 'Request started' }))).toBe(1);
+        expect(sampler(record({ message: 'Request completed' }))).toBeUndefined();
+        expect(sampler(record({ name: 'user.get' }))).toBe(1);
+    });
+
+    it('should apply level rules in place of the base rule', () => {
+        const sampler = createSampler({ rate: 0, levels: { warn: false, debug: { rate: 1 } } });
+
+        expect(sampler(record())).toBeUndefined();
+        expect(sampler(record({ level: 'warn', severity: 40 }))).toBe(1);
+        expect(sampler(record({ level: 'debug', severity: 20 }))).toBe(1);
+    });
+
+    it('should attach the sample rate to emitted records', () => {
+        jest.spyOn(Math, 'random').mockReturnValue(0);
+        const records: LogRecord[] = [];
+        const unsampled: LogRecord[] = [];
+        const logger = createLogger({
+            pipelines: [
+                { name: 'sampled', sampling: { rate: 0.1 }, transport: defineTransport(r => { records.push(r); }) },
+                { name: 'full', transport: defineTransport(r => { unsampled.push(r); }) }
+            ]
+        }, 'user.list');
+
+        logger.info('Request started');
+
+        expect(records[0].sampleRate).toBe(0.1);
+        expect(unsampled[0].sampleRate).toBeUndefined();
+    });
+
+    it('should share budgets between loggers built from the same config', () => {
+        jest.useFakeTimers({ now: 0 });
+        const transport = jest.fn();
+        const config = { pipelines: [{ name: 'sampled', sampling: { perSecond: 1 }, transport }] };
+
+        createLogger(config, 'user.list').info('Request started');
+        createLogger(config, 'user.list').info('Request started');
+
+        expect(transport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate sampling config', () => {
+        expect(validatePipeline({
+            name: 'sampled',
+            sampling: { rate: 0.5, by: 'requestId', levels: { debug: { perSecond: 10, key: 'name' }, warn: false } },
+            transport: jest.fn()
+        }).isValid).toBe(true);
+
+        const result = validatePipeline({ name: 'sampled', sampling: { rate: 2 }, transport: jest.fn() });
+        expect(result.isValid).toBe(false);
+        expect(result.errors[0].field).toBe('sampling.rate');
+    });
+});
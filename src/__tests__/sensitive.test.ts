@@ -0,0 +1,120 @@
+import {
+    loggedProcedure,
+    createLoggingMiddleware,
+    createLogger,
+    createPerformanceMiddleware,
+    defineTransport,
+    getSensitivePaths,
+    performanceMiddleware,
+    runWithRequestContext,
+    redactSensitiveInput,
+    sensitive,
+    type Logger,
+    type LogRecord
+} from '../index';
+import { initTRPC } from '@trpc/server';
+import { z } from 'zod';
+
+describe('Sensitive input fields', () => {
+    it('should find tagged fields in nested objects, arrays, unions and optionals', () => {
+        const schema = z.object({
+            email: z.string(),
+            password: sensitive(z.string().min(8)),
+            profile: z.object({ ssn: z.string().describe('Social security number @sensitive').optional() }).nullable(),
+            cards: z.array(z.object({ number: sensitive(z.string()), brand: z.string() })),
+            payment: z.discriminatedUnion('kind', [
+                z.object({ kind: z.literal('card'), cvc: sensitive(z.string()) }),
+                z.object({ kind: z.literal('iban'), iban: sensitive(z.string()) })
+            ]),
+            secrets: z.record(sensitive(z.string())).default({}),
+            'api-token': sensitive(z.string()).optional(),
+            pair: z.tuple([z.string(), sensitive(z.string())])
+        });
+
+        expect(getSensitivePaths(schema)).toEqual([
+            'password',
+            'profile.ssn',
+            'cards[*].number',
+            'payment.cvc',
+            'payment.iban',
+            'secrets.*',
+            '["api-token"]',
+            'pair[1]'
+        ]);
+    });
+
+    it('should handle unions of objects, effects, lazy schemas and non-zod parsers', () => {
+        type Node = { secret: string; children: Node[] };
+        const node: z.ZodType<Node> = z.lazy(() => z.object({ secret: sensitive(z.string()), children: z.array(node) }));
+
+        expect(getSensitivePaths(z.union([z.object({ a: sensitive(z.string()) }), z.string()]))).toEqual(['a']);
+        expect(getSensitivePaths(z.object({ pin: sensitive(z.string()) }).transform(value => value))).toEqual(['pin']);
+        expect(getSensitivePaths(node)).toEqual(['secret']);
+        expect(getSensitivePaths(sensitive(z.string()))).toEqual(['']);
+        expect(getSensitivePaths((value: unknown) => value)).toEqual([]);
+    });
+
+    it('should keep the tag through later zod modifiers and descriptions', () => {
+        const schema = sensitive(z.string().describe('Password')).min(8).optional();
+
+        expect(schema.description).toBe('Password @sensitive');
+        expect(getSensitivePaths(z.object({ password: schema }))).toEqual(['password']);
+    });
+
+    it('should mask only the tagged paths of the current procedure input', () => {
+        const logger = { info: jest.fn() } as unknown as Logger;
+        const input = { password: 'hunter2', user: { password: 'kept, not tagged' }, cards: [{ number: '4111' }] };
+
+        const redacted = runWithRequestContext({ logger, sensitivePaths: ['password', 'cards[*].number'] }, () => redactSensitiveInput(input));
+
+        expect(redacted).toEqual({ password: '[MASKED]', user: { password: 'kept, not tagged' }, cards: [{ number: '[MASKED]' }] });
+        expect(input.password).toBe('hunter2');
+        expect(redactSensitiveInput(input)).toBe(input);
+    });
+
+    it('should mask tagged input in the logging and performance middlewares', async () => {
+        const t = initTRPC.context<{ logger?: Logger }>().create();
+        const records: LogRecord[] = [];
+        const config = { pipelines: [{ name: 'capture', transport: defineTransport(record => { records.push(record); }) }] };
+        const base = loggedProcedure(t.procedure, config);
+        const router = t.router({
+            // Input declared before and after withLogger, with a middleware between them
+            signUp: base
+                .input(z.object({ email: z.string(), password: sensitive(z.string()) }))
+                .withLogger('auth.signUp')
+                .input(z.object({ cards: z.array(z.object({ number: z.string().describe('@sensitive') })).optional() }))
+                .use(createLoggingMiddleware({ maskSensitiveFields: [], logResponses: false }))
+                .use(createPerformanceMiddleware({ enabled: true, logSlowQueries: true, slowQueryThreshold: -1, logMemoryUsage: false }))
+                .use(performanceMiddleware(createLogger(config, 'monitor'), { logInputOutput: true, slowQueryThreshold: -1 }))
+                .mutation(() => 'ok')
+        });
+
+        await t.createCallerFactory(router)({}).signUp({ email: 'ada@example.com', password: 'hunter2', cards: [{ number: '4111' }] });
+
+        const masked = { email: 'ada@example.com', password: '[MASKED]', cards: [{ number: '[MASKED]' }] };
+        expect(records.find(record => record.message === 'Request started')?.meta?.body).toEqual(masked);
+        expect(records.find(record => record.message === 'Slow query detected')?.meta?.input).toEqual(masked);
+        expect(records.find(record => record.name === 'monitor')?.meta?.input).toEqual(masked);
+    });
+
+    it('should mask inputs declared before loggedProcedure without changing the base builder', async () => {
+        const t = initTRPC.context<{ logger?: Logger }>().create();
+        const { input } = t.procedure;
+        const records: LogRecord[] = [];
+        const config = { pipelines: [{ name: 'capture', transport: defineTransport(record => { records.push(record); }) }] };
+        const base = loggedProcedure(t.procedure.input(z.object({ token: sensitive(z.string()) })), config);
+        const router = t.router({
+            refresh: base
+                .withLogger()
+                .input(z.object({ pin: sensitive(z.string()) }))
+                .use(createLoggingMiddleware({ maskSensitiveFields: [], logResponses: false }))
+                .mutation(() => 'ok')
+        });
+
+        await t.createCallerFactory(router)({}).refresh({ token: 'abc', pin: '1234' });
+
+        expect(records.find(record => record.message === 'Request started')?.meta?.body).toEqual({ token: '[MASKED]', pin: '[MASKED]' });
+        expect(t.procedure.input).toBe(input);
+        expect(t.procedure).not.toHaveProperty('withLogger');
+    });
+});
@@ -0,0 +1,148 @@
+import {
+    createLogger,
+    defineTransport,
+    httpTransport,
+    jsonFormat,
+    jsonTransport,
+    redisTransport,
+    safeStringify,
+    setSerializeOptions,
+    toSerializable,
+    type LogRecord
+} from '../index';
+
+describe('Safe serialization', () => {
+    it('should replace cycles but keep shared references', () => {
+        const shared = { id: 1 };
+        const entity: any = { name: 'order', customer: shared, owner: shared };
+        entity.self = entity;
+        entity.items = [{ order: entity }];
+
+        expect(toSerializable(entity)).toEqual({
+            name: 'order',
+            customer: { id: 1 },
+            owner: { id: 1 },
+            self: '[Circular]',
+            items: [{ order: '[Circular]' }]
+        });
+    });
+
+    it('should convert values JSON.stringify rejects or mangles', () => {
+        const value = {
+            id: 9007199254740993n,
+            createdAt: new Date('2025-01-02T03:04:05.000Z'),
+            invalid: new Date('nope'),
+            tags: new Set(['a', 'b']),
+            counts: new Map<unknown, unknown>([['x', 1], [2, 2n]]),
+            bytes: new Uint8Array([1, 2, 3]),
+            big: new BigInt64Array([5n]),
+            buffer: Buffer.from('hi'),
+            raw: new ArrayBuffer(8),
+            pattern: /ab+c/i,
+            ratio: NaN,
+            callback: function onDone() { return undefined; },
+            missing: undefined
+        };
+
+        expect(JSON.parse(safeStringify(value))).toEqual({
+            id: '9007199254740993',
+            createdAt: '2025-01-02T03:04:05.000Z',
+            invalid: 'Invalid Date',
+            tags: ['a', 'b'],
+            counts: { x: 1, 2: '2' },
+            bytes: [1, 2, 3],
+            big: ['5'],
+            buffer: '[Buffer 2 bytes: aGk=]',
+            raw: '[ArrayBuffer 8 bytes]',
+            pattern: '/ab+c/i',
+            ratio: 'NaN',
+            callback: '[Function onDone]'
+        });
+    });
+
+    it('should serialize nested errors', () => {
+        expect(toSerializable({ failure: new RangeError('Out of range') }, {})).toEqual({
+            failure: expect.objectContaining({ name: 'RangeError', message: 'Out of range' })
+        });
+    });
+
+    it('should apply depth, array and string limits with markers', () => {
+        const value = {
+            nested: { a: { b: { c: 1 } } },
+            list: [1, 2, 3, 4, 5],
+            text: 'abcdefghij'
+        };
+
+        expect(toSerializable(value, { maxDepth: 2, maxArrayLength: 3, maxStringLength: 4 })).toEqual({
+            nested: { a: '[Object]' },
+            list: [1, 2, 3, '... 2 more items'],
+            text: 'abcd... [6 more characters]'
+        });
+        expect(toSerializable({ deep: { list: [[1]] } }, { maxDepth: 2 })).toEqual({ deep: { list: '[Array(1)]' } });
+    });
+
+    it('should survive throwing getters and toJSON methods', () => {
+        const value = {
+            get lazy() {
+                throw new Error('Not loaded');
+            },
+            money: { toJSON: () => '12.50' },
+            broken: { toJSON: () => { throw new Error('nope'); } }
+        };
+
+        expect(toSerializable(value)).toEqual({ lazy: '[Unserializable]', money: '12.50', broken: '[Unserializable]' });
+    });
+
+    it('should use limits set with setSerializeOptions', () => {
+        setSerializeOptions({ maxStringLength: 3 });
+        try {
+            expect(safeStringify('abcdef')).toBe('"abc... [3 more characters]"');
+            expect(safeStringify('abcdef', { maxStringLength: 10 })).toBe('"abcdef"');
+        } finally {
+            setSerializeOptions({ maxStringLength: 10000 });
+        }
+    });
+
+    describe('built-in formats and transports', () => {
+        const createHostileMeta = () => {
+            const entity: any = { id: 1n, tags: new Set(['vip']) };
+            entity.parent = entity;
+            return { entity };
+        };
+
+        it('should format hostile meta with jsonFormat', () => {
+            const output: string[] = [];
+            const logger = createLogger({
+                pipelines: [{ name: 'json', format: jsonFormat, transport: defineTransport((_record, formatted) => { output.push(formatted); }) }]
+            });
+
+            logger.info('Loaded', createHostileMeta());
+
+            expect(JSON.parse(output[0]).meta).toEqual({ entity: { id: '1', tags: ['vip'], parent: '[Circular]' } });
+        });
+
+        it('should ship hostile meta through the JSON transports', async () => {
+            const record: LogRecord = { level: 'info', severity: 30, timestamp: new Date(), message: 'Loaded', meta: createHostileMeta() };
+            const printed: string[] = [];
+            const log = jest.spyOn(console, 'log').mockImplementation(line => { printed.push(line); });
+            const fetchMock = jest.fn().mockResolvedValue({ ok: true });
+            const originalFetch = global.fetch;
+            global.fetch = fetchMock;
+            const redis = { lpush: jest.fn(), expire: jest.fn() };
+
+            try {
+                jsonTransport(record, 'Loaded');
+                await httpTransport('https://logs.example.com')(record, 'Loaded');
+                await redisTransport(redis, 'logs')(record, 'Loaded');
+            } finally {
+                log.mockRestore();
+                global.fetch = originalFetch;
+            }
+
+            const outputs = [printed[0], fetchMock.mock.calls[0][1].body, redis.lpush.mock.calls[0][1]];
+            for (const output of outputs) {
+                expect(JSON.parse(output).meta.entity).toEqual({ id: '1', tags: ['vip'], parent: '[Circular]' });
+            }
+        });
+    });
+});
@@ -0,0 +1,112 @@
+import { createLoggingMiddleware, createLogger, defineTransport, loggedProcedure, type LogRecord } from '../index';
+import { captureLogs, createTestLogger, logMatchers, useFakeClock } from '../testing';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { z } from 'zod';
+
+describe('Testing utilities', () => {
+    const t = initTRPC.context<{}>().create();
+
+    const createRouter = (procedure: ReturnType<typeof loggedProcedure>) => t.router({
+        user: t.router({
+            get: procedure
+                .withLogger()
+                .input(z.object({ id: z.string() }))
+                .use(createLoggingMiddleware({ logResponses: false }))
+                .query(({ input, ctx }) => {
+                    ctx.logger.debug('Loading user', { id: input.id });
+                    if (input.id === 'missing') {
+                        throw new TRPCError({ code: 'NOT_FOUND', message: 'User not found' });
+                    }
+                    return { id: input.id };
+                })
+        })
+    });
+
+    it('should keep records of procedures called through createCaller', async () => {
+        const logs = createTestLogger();
+        const caller = t.createCallerFactory(createRouter(loggedProcedure(t.procedure, logs.config)))({});
+
+        await caller.user.get({ id: 'u1' });
+        await expect(caller.user.get({ id: 'missing' })).rejects.toThrow('User not found');
+
+        expect(logs).toHaveLogged({ level: 'debug', name: 'user.get', type: 'query', meta: { id: 'u1' } });
+        expect(logs).toHaveLogged({ level: 'error', message: /failed/, meta: { path: 'user.get', error: { code: 'NOT_FOUND' } } });
+        expect(logs).toHaveLoggedTimes({ message: 'Request started' }, 2);
+        expect(logs).not.toHaveLogged({ level: 'warn' });
+        expect(logs.query({ level: 'error' })).toHaveLength(1);
+
+        logs.clear();
+        expect(logs.records).toEqual([]);
+    });
+
+    it('should capture records of any logger while a callback runs', async () => {
+        const output: LogRecord[] = [];
+        const config = { pipelines: [{ name: 'app', level: 'info' as const, transport: defineTransport(record => { output.push(record); }) }] };
+        const caller = t.createCallerFactory(createRouter(loggedProcedure(t.procedure, config)))({});
+        const jobs = createLogger(config, 'jobs');
+
+        jobs.info('Before the capture');
+        const [first, second] = await Promise.all([
+            captureLogs(() => caller.user.get({ id: 'missing' })),
+            captureLogs(async () => {
+                await new Promise(resolve => setTimeout(resolve, 5));
+                jobs.info('In a timer');
+                return 'done';
+            })
+        ]);
+
+        expect(first.error).toBeInstanceOf(TRPCError);
+        expect(first.records.map(record => record.message)).toEqual(['Request started', 'Request failed']);
+        expect(first).toHaveLogged({ level: 'error', path: 'user.get', meta: { error: { message: 'User not found' } } });
+        expect(second).toEqual({ records: [expect.objectContaining({ message: 'In a timer' })], result: 'done' });
+        expect(output).toHaveLength(4);
+    });
+
+    it('should nest captures', async () => {
+        const logger = createTestLogger().logger;
+
+        const outer = await captureLogs(async () => {
+            logger.info('outer');
+            const inner = await captureLogs(() => logger.info('inner'));
+            expect(inner.records.map(record => record.message)).toEqual(['inner']);
+        });
+
+        expect(outer.records.map(record => record.message)).toEqual(['outer', 'inner']);
+    });
+
+    it('should set record timestamps from a fake clock', () => {
+        const logs = createTestLogger();
+        const { logger } = logs;
+        const clock = useFakeClock('2024-06-01T12:00:00.000Z');
+
+        try {
+            logger.info('first');
+            clock.tick(1500);
+            logger.info('second');
+            clock.set(0);
+            logger.info('third');
+        } finally {
+            clock.restore();
+        }
+        logger.info('real');
+
+        expect(logs.records.slice(0, 3).map(record => record.timestamp.toISOString())).toEqual([
+            '2024-06-01T12:00:00.000Z',
+            '2024-06-01T12:00:01.500Z',
+            '1970-01-01T00:00:00.000Z'
+        ]);
+        expect(logs.records[3].timestamp.getFullYear()).toBeGreaterThan(2024);
+    });
+
+    it('should describe the logged records when an assertion fails', () => {
+        const logs = createTestLogger({ name: 'users' });
+        logs.logger.warn('Slow lookup', { ms: 900 });
+
+        const result = logMatchers.toHaveLogged.call({}, logs, { level: 'error', message: /failed/ });
+
+        expect(result.pass).toBe(false);
+        expect(result.message()).toBe(
+            'Expected a record matching { level: "error", message: /failed/ }\n\nLogged records:\n  warn users: Slow lookup {"ms":900}'
+        );
+    });
+});
@@ -0,0 +1,159 @@
+import {
+    loggedProcedure,
+    createPerformanceMiddleware,
+    createRequestIdMiddleware,
+    createLogger,
+    defineTransport,
+    formatTraceparent,
+    jsonFormat,
+    parseTraceparent,
+    type Logger,
+    type LogRecord
+} from '../index';
+import { context, trace, SpanStatusCode } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { BasicTracerProvider, InMemorySpanExporter, SimpleSpanProcessor } from '@opentelemetry/sdk-trace-base';
+import { initTRPC } from '@trpc/server';
+
+describe('Trace context', () => {
+    const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+    const t = initTRPC.context<{ logger?: Logger; req?: { headers: Record<string, string> } }>().create();
+    const exporter = new InMemorySpanExporter();
+    const contextManager = new AsyncLocalStorageContextManager();
+    let records: LogRecord[];
+
+    const config = {
+        pipelines: [{
+            name: 'capture',
+            level: 'debug' as const,
+            transport: defineTransport(record => { records.push(record); })
+        }]
+    };
+
+    beforeAll(() => {
+        context.setGlobalContextManager(contextManager.enable());
+        trace.setGlobalTracerProvider(new BasicTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] }));
+    });
+
+    afterAll(() => {
+        trace.disable();
+        context.disable();
+    });
+
+    beforeEach(() => {
+        records = [];
+        exporter.reset();
+    });
+
+    it('should parse and format traceparent headers', () => {
+        const parsed = parseTraceparent(TRACEPARENT);
+
+        expect(parsed).toEqual({
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            spanId: '00f067aa0ba902b7',
+            traceFlags: 1
+        });
+        expect(formatTraceparent(parsed!)).toBe(TRACEPARENT);
+    });
+
+    it('should reject malformed traceparent headers', () => {
+        expect(parseTraceparent(undefined)).toBeUndefined();
+        expect(parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7')).toBeUndefined();
+        expect(parseTraceparent(`00-${'0'.repeat(32)}-00f067aa0ba902b7-01`)).toBeUndefined();
+        expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeUndefined();
+        expect(parseTraceparent(`${TRACEPARENT}-extra`)).toBeUndefined();
+        expect(parseTraceparent('01-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01-extra')).toBeDefined();
+    });
+
+    it('should attach the active span to records', () => {
+        const logger = createLogger(config, 'job');
+        const formatted: string[] = [];
+        const transport = defineTransport((_record, output) => { formatted.push(output); });
+        const jsonLogger = createLogger({ pipelines: [{ name: 'json', format: jsonFormat, transport }] }, 'job');
+
+        trace.getTracer('test').startActiveSpan('work', span => {
+            logger.info('Inside span');
+            jsonLogger.info('Inside span');
+            span.end();
+        });
+        logger.info('Outside span');
+
+        const span = exporter.getFinishedSpans()[0];
+        expect(records[0]).toEqual(expect.objectContaining({
+            traceId: span.spanContext().traceId,
+            spanId: span.spanContext().spanId,
+            traceFlags: 1
+        }));
+        expect(records[1].traceId).toBeUndefined();
+        expect(JSON.parse(formatted[0])).toEqual(expect.objectContaining({
+            trace_id: span.spanContext().traceId,
+            span_id: span.spanContext().spanId,
+            trace_flags: '01'
+        }));
+    });
+
+    it('should fall back to the traceparent header without an active span', async () => {
+        const procedure = loggedProcedure(t.procedure.use(createRequestIdMiddleware()), config);
+        const router = t.router({
+            get: procedure.withLogger('user.get').query(({ ctx }) => ctx.logger.info('Loaded'))
+        });
+
+        await t.createCallerFactory(router)({ req: { headers: { traceparent: TRACEPARENT } } }).get();
+
+        expect(records[0]).toEqual(expect.objectContaining({
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            spanId: '00f067aa0ba902b7',
+            traceFlags: 1
+        }));
+    });
+
+    it('should run procedures in a child span when createSpans is set', async () => {
+        const procedure = loggedProcedure(t.procedure, config).withLogger('user.get')
+            .use(createPerformanceMiddleware({
+                enabled: true,
+                logSlowQueries: false,
+                slowQueryThreshold: 1000,
+                logMemoryUsage: false,
+                createSpans: true
+            }));
+        const router = t.router({
+            get: procedure.query(({ ctx }) => ctx.logger.info('Loaded')),
+            fail: procedure.query(() => {
+                throw new Error('Boom');
+            })
+        });
+        const caller = t.createCallerFactory(router)({});
+
+        await trace.getTracer('test').startActiveSpan('request', async parent => {
+            await caller.get();
+            await expect(caller.fail()).rejects.toThrow('Boom');
+            parent.end();
+        });
+
+        const spans = exporter.getFinishedSpans();
+        const parent = spans.find(span => span.name === 'request')!;
+        const get = spans.find(span => span.name === 'get')!;
+        const fail = spans.find(span => span.name === 'fail')!;
+
+        expect(get.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+        expect(get.attributes).toEqual({ 'rpc.system': 'trpc', 'rpc.method': 'get', 'trpc.type': 'query' });
+        expect(get.status.code).toBe(SpanStatusCode.UNSET);
+        expect(fail.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Boom' });
+        expect(fail.events.map(event => event.name)).toEqual(['exception']);
+
+        expect(records.find(record => record.message === 'Loaded')?.spanId).toBe(get.spanContext().spanId);
+    });
+
+    it('should not create spans unless asked to', async () => {
+        const router = t.router({
+            get: loggedProcedure(t.procedure, config).withLogger('user.get')
+                .use(createPerformanceMiddleware())
+                .query(() => 'ok')
+        });
+
+        await t.createCallerFactory(router)({}).get();
+
+        expect(exporter.getFinishedSpans()).toEqual([]);
+    });
+});
@@ -0,0 +1,178 @@
+import { loggedProcedure, createLogger, defineTransport, httpTransport, type Logger, type PipelineConfig } from '../index';
+import { initTRPC } from '@trpc/server';
+
+describe('Transport failure isolation', () => {
+    const flushPromises = () => new Promise(resolve => setImmediate(resolve));
+
+    let onTransportError: jest.Mock;
+    let fallback: jest.Mock;
+
+    beforeEach(() => {
+        onTransportError = jest.fn();
+        fallback = jest.fn();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('should not fail the procedure when a transport throws', async () => {
+        const t = initTRPC.context<{ logger?: Logger }>().create();
+        const procedure = loggedProcedure(t.procedure, {
+            pipelines: [{
+                name: 'broken',
+                transport: () => {
+                    throw new Error('disk full');
+                }
+            }],
+            onTransportError
+        });
+        const router = t.router({
+            get: procedure.withLogger('user.get').query(({ ctx }) => {
+                ctx.logger.info('Loading');
+                return 'ok';
+            })
+        });
+
+        await expect(t.createCallerFactory(router)({}).get()).resolves.toBe('ok');
+        expect(onTransportError).toHaveBeenCalledWith(
+            new Error('disk full'),
+            expect.objectContaining({ pipeline: 'broken', fallback: false, record: expect.objectContaining({ message: 'Loading' }) })
+        );
+    });
+
+    it('should send rejected records to the fallback transport', () => {
+        const logger = createLogger({
+            pipelines: [{
+                name: 'primary',
+                transport: () => {
+                    throw new Error('unavailable');
+                },
+                fallback
+            }],
+            onTransportError
+        }, 'svc');
+
+        logger.warn('Retrying', { attempt: 2 });
+
+        expect(fallback).toHaveBeenCalledWith('svc', '[WARN] [svc] Retrying', { attempt: 2 });
+        expect(onTransportError).toHaveBeenCalledTimes(1);
+    });
+
+    it('should handle asynchronous transport failures', async () => {
+        const logger = createLogger({
+            pipelines: [{
+                name: 'async',
+                transport: defineTransport(() => Promise.reject(new Error('timeout'))),
+                fallback: defineTransport(fallback)
+            }],
+            onTransportError
+        }, 'svc');
+
+        logger.error('Failed');
+        await flushPromises();
+
+        expect(onTransportError).toHaveBeenCalledWith(new Error('timeout'), expect.objectContaining({ fallback: false }));
+        expect(fallback).toHaveBeenCalledWith(expect.objectContaining({ message: 'Failed' }), '[ERROR] [svc] Failed');
+    });
+
+    it('should report fallback failures without throwing', () => {
+        const logger = createLogger({
+            pipelines: [{
+                name: 'primary',
+                transport: () => {
+                    throw new Error('primary');
+                },
+                fallback: () => {
+                    throw new Error('fallback');
+                }
+            }],
+            onTransportError
+        }, 'svc');
+
+        expect(() => logger.info('hello')).not.toThrow();
+        expect(onTransportError.mock.calls.map(call => [call[0].message, call[1].fallback])).toEqual([
+            ['primary', false],
+            ['fallback', true]
+        ]);
+    });
+
+    it('should isolate format and filter errors', () => {
+        const transport = jest.fn();
+        const logger = createLogger({
+            pipelines: [
+                {
+                    name: 'format',
+                    format: () => {
+                        throw new Error('format');
+                    },
+                    transport
+                },
+                {
+                    name: 'filter',
+                    filter: {
+                        predicate: () => {
+                            throw new Error('predicate');
+                        }
+                    },
+                    transport
+                }
+            ],
+            onTransportError
+        }, 'svc');
+
+        expect(() => logger.info('hello')).not.toThrow();
+        expect(transport).toHaveBeenCalledWith('svc', '[INFO] [svc] hello', undefined);
+        expect(onTransportError.mock.calls.map(call => call[1].pipeline)).toEqual(['format', 'filter']);
+    });
+
+    it('should fall back to console.error without a hook', () => {
+        const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const error = new Error('broken');
+        const config: PipelineConfig = {
+            pipelines: [{
+                name: 'broken',
+                transport: () => {
+                    throw error;
+                }
+            }]
+        };
+
+        createLogger(config, 'svc').info('hello');
+
+        expect(consoleError).toHaveBeenCalledWith('Transport error in pipeline "broken":', error);
+    });
+
+    it('should swallow errors thrown by the hook', () => {
+        const logger = createLogger({
+            pipelines: [{
+                name: 'broken',
+                transport: () => {
+                    throw new Error('broken');
+                }
+            }],
+            onTransportError: () => {
+                throw new Error('hook');
+            }
+        }, 'svc');
+
+        expect(() => logger.info('hello')).not.toThrow();
+    });
+
+    it('should report failed HTTP responses', async () => {
+        jest.spyOn(global, 'fetch').mockResolvedValue({ ok: false, status: 503 } as Response);
+        const logger = createLogger({
+            pipelines: [{ name: 'http', transport: httpTransport('https://logs.example.com'), fallback }],
+            onTransportError
+        }, 'svc');
+
+        logger.info('hello');
+        await flushPromises();
+
+        expect(onTransportError).toHaveBeenCalledWith(
+            new Error('HTTP transport request failed with status 503'),
+            expect.objectContaining({ pipeline: 'http' })
+        );
+        expect(fallback).toHaveBeenCalled();
+    });
+});
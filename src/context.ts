@@ -0,0 +1,66 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Logger } from './index';
+import { createLogger } from './logger';
+import type { TraceContext } from './trace';
+
+// Request-scoped data available to code that doesn't receive ctx
+export interface RequestContext {
+    logger: Logger;
+    name?: string;
+    path?: string;
+    type?: string;
+    requestId?: string;
+    // Trace context of an incoming traceparent header, used when there is no active OpenTelemetry span
+    trace?: TraceContext;
+    // Input fields tagged sensitive in the procedure's zod schemas, see getSensitivePaths
+    sensitivePaths?: string[];
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+// Used outside of a request, silent unless replaced with setFallbackLogger
+let fallbackLogger: Logger | undefined;
+
+/**
+ * Run a function with the given request context.
+ * Called by withLogger for every procedure call, and usable directly for jobs and scripts.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+    return storage.run(context, fn);
+}
+
+/**
+ * Get the context of the current request, or undefined outside of a request
+ */
+export function getRequestContext(): RequestContext | undefined {
+    return storage.getStore();
+}
+
+/**
+ * Get the logger of the current request, or the fallback logger outside of a request
+ *
+ * @example
+ * ```typescript
+ * // In a repository that never sees ctx
+ * export async function findUser(id: string) {
+ *   getLogger().debug('Loading user', { id });
+ * }
+ * ```
+ */
+export function getLogger(): Logger {
+    const store = storage.getStore();
+    if (store) {
+        return store.logger;
+    }
+    if (!fallbackLogger) {
+        fallbackLogger = createLogger({ pipelines: [] });
+    }
+    return fallbackLogger;
+}
+
+/**
+ * Replace the logger returned by getLogger() outside of a request
+ */
+export function setFallbackLogger(logger: Logger): void {
+    fallbackLogger = logger;
+}
@@ -0,0 +1,91 @@
+import type { LogRecord } from './record';
+import { safeStringify } from './serialize';
+
+export interface DedupeConfig {
+    // How long identical records are collapsed after the first one, 1 second unless specified
+    windowMs?: number;
+    // Meta keys that are part of a record's identity, besides level, name and message
+    keys?: string[];
+    // Identical records passed through per window before the rest are collapsed, 1 unless specified
+    burst?: number;
+    // Maximum number of identities tracked at once, records beyond it pass through
+    maxKeys?: number;
+}
+
+export interface Deduper {
+    // Returns false when the record was collapsed into a pending summary
+    check: (record: LogRecord) => boolean;
+    // Emit every pending summary now
+    flush: () => void;
+}
+
+interface DedupeWindow {
+    count: number;
+    suppressed: number;
+    last?: LogRecord;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+function getIdentity(record: LogRecord, keys: string[]): string {
+    const parts = [record.level, record.name ?? '', record.message];
+    for (const key of keys) {
+        parts.push(safeStringify(record.meta?.[key]));
+    }
+    return parts.join('\u0000');
+}
+
+/**
+ * Create a dedupe stage that collapses identical records within a time window.
+ * When a window with collapsed records closes, `emit` receives the last of them with a `repeated` count.
+ */
+export function createDeduper(config: DedupeConfig, emit: (record: LogRecord) => void): Deduper {
+    const { windowMs = 1000, keys = [], burst = 1, maxKeys = 1000 } = config;
+    const windows = new Map<string, DedupeWindow>();
+
+    const close = (identity: string) => {
+        const window = windows.get(identity);
+        if (!window) {
+            return;
+        }
+        clearTimeout(window.timer);
+        windows.delete(identity);
+
+        if (window.suppressed > 0 && window.last) {
+            emit({
+                ...window.last,
+                meta: { ...window.last.meta, repeated: window.suppressed },
+                repeated: window.suppressed
+            });
+        }
+    };
+
+    return {
+        check: (record) => {
+            const identity = getIdentity(record, keys);
+            const window = windows.get(identity);
+
+            if (!window) {
+                if (windows.size >= maxKeys) {
+                    return true;
+                }
+                const timer = setTimeout(() => close(identity), windowMs);
+                timer.unref?.();
+                windows.set(identity, { count: 1, suppressed: 0, timer });
+                return true;
+            }
+
+            window.count++;
+            if (window.count <= burst) {
+                return true;
+            }
+            window.suppressed++;
+            window.last = record;
+            return false;
+        },
+        flush: () => {
+            for (const identity of Array.from(windows.keys())) {
+                close(identity);
+            }
+        }
+    };
+}
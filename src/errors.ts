@@ -0,0 +1,134 @@
+import { getHTTPStatusCodeFromError } from '@trpc/server/http';
+import type { TRPCError } from '@trpc/server';
+
+// JSON-safe form of an error, produced by serializeError
+export interface SerializedError {
+    name: string;
+    message: string;
+    stack?: string;
+    // TRPCError code, or the code of a Node system error
+    code?: string | number;
+    // HTTP status tRPC responds with for a TRPCError
+    httpStatus?: number;
+    // Flattened ZodError issues
+    issues?: Array<{ path: string; message: string; code?: string }>;
+    // AggregateError members
+    errors?: SerializedError[];
+    // Serialized cause, or the cause itself when it isn't an Error
+    cause?: unknown;
+    // Custom enumerable properties of the error
+    [key: string]: unknown;
+}
+
+export interface SerializeErrorOptions {
+    // Include stack traces, true unless specified
+    includeStack?: boolean;
+    // Nested causes and aggregate members serialized before stopping, 5 unless specified
+    maxDepth?: number;
+}
+
+// Keys handled explicitly, never copied as custom properties
+const RESERVED_KEYS = new Set(['name', 'message', 'stack', 'cause', 'errors', 'issues', 'code']);
+
+// Fields read from errors of any kind
+export type ErrorFields = Error & {
+    code?: unknown;
+    cause?: unknown;
+    errors?: unknown;
+    issues?: Array<{ path?: unknown; message: string; code?: string }>;
+    [key: string]: unknown;
+};
+
+function isTRPCError(error: ErrorFields): error is ErrorFields & TRPCError {
+    return error.name === 'TRPCError' && typeof error.code === 'string';
+}
+
+function isZodError(error: ErrorFields): boolean {
+    return error.name === 'ZodError' && Array.isArray(error.issues);
+}
+
+function serialize(
+    error: unknown,
+    options: Required<SerializeErrorOptions>,
+    depth: number,
+    seen: Set<unknown>
+): SerializedError {
+    if (!(error instanceof Error)) {
+        return { name: 'NonError', message: typeof error === 'string' ? error : String(error) };
+    }
+
+    seen.add(error);
+    const fields = error as ErrorFields;
+    const serialized: SerializedError = { name: error.name, message: error.message };
+
+    if (options.includeStack && error.stack) {
+        serialized.stack = error.stack;
+    }
+
+    const { code, cause } = fields;
+    if (typeof code === 'string' || typeof code === 'number') {
+        serialized.code = code;
+    }
+    if (isTRPCError(fields)) {
+        serialized.httpStatus = getHTTPStatusCodeFromError(fields);
+    }
+
+    if (isZodError(fields) && fields.issues) {
+        serialized.issues = fields.issues.map(issue => ({
+            path: Array.isArray(issue.path) ? issue.path.join('.') : '',
+            message: issue.message,
+            code: issue.code
+        }));
+    }
+
+    for (const key of Object.keys(error)) {
+        if (RESERVED_KEYS.has(key)) {
+            continue;
+        }
+        const value = fields[key];
+        serialized[key] = value instanceof Error && depth < options.maxDepth && !seen.has(value)
+            ? serialize(value, options, depth + 1, seen)
+            : value;
+    }
+
+    const nested = depth < options.maxDepth;
+
+    // AggregateError, checked by shape since the ES2020 lib doesn't declare it
+    if (Array.isArray(fields.errors)) {
+        const members: unknown[] = fields.errors;
+        serialized.errors = nested
+            ? members.filter(member => !seen.has(member)).map(member => serialize(member, options, depth + 1, seen))
+            : [];
+    }
+
+    if (cause !== undefined) {
+        if (seen.has(cause)) {
+            serialized.cause = '[Circular]';
+        } else if (!nested) {
+            serialized.cause = '[Truncated]';
+        } else {
+            serialized.cause = cause instanceof Error ? serialize(cause, options, depth + 1, seen) : cause;
+        }
+    }
+
+    return serialized;
+}
+
+/**
+ * Convert an error to a plain object that survives JSON.stringify, keeping its cause chain,
+ * AggregateError members, TRPCError code and HTTP status, ZodError issues and custom properties
+ *
+ * @param error - The error to serialize, non-Error values become `{ name: 'NonError', message }`
+ * @param options - Whether to include stacks and how deep to follow causes
+ * @returns The serialized error
+ *
+ * @example
+ * ```typescript
+ * serializeError(new TRPCError({ code: 'NOT_FOUND', message: 'No such user' }));
+ * // { name: 'TRPCError', message: 'No such user', stack: '...', code: 'NOT_FOUND', httpStatus: 404 }
+ * ```
+ */
+export function serializeError(error: unknown, options: SerializeErrorOptions = {}): SerializedError {
+    const { includeStack = true, maxDepth = 5 } = options;
+    return serialize(error, { includeStack, maxDepth }, 0, new Set());
+}
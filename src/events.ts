@@ -0,0 +1,127 @@
+import type { z, ZodTypeAny } from 'zod';
+import type { Logger } from './index';
+import type { LogLevel } from './levels';
+import { markLogEvent } from './log-event';
+
+export interface LogEventDefinition<TSchema extends ZodTypeAny = ZodTypeAny> {
+    schema: TSchema;
+    // Stable code for dashboards and alerts, the event name unless specified
+    code?: string;
+    // 'info' unless specified
+    level?: LogLevel;
+    // Record message, the event name unless specified
+    message?: string;
+}
+
+// Event names mapped to a meta schema, or to a definition with a code, level and message
+export type LogEventCatalog = Record<string, ZodTypeAny | LogEventDefinition>;
+
+export type LogEventSchema<TEntry> = TEntry extends LogEventDefinition<infer TSchema> ? TSchema : TEntry;
+
+// Meta accepted by logger.event() for a catalog entry
+export type LogEventMeta<TEntry> = z.input<Extract<LogEventSchema<TEntry>, ZodTypeAny>>;
+
+export interface ResolvedLogEvent {
+    name: string;
+    code: string;
+    level: LogLevel;
+    message: string;
+    schema: ZodTypeAny;
+}
+
+export interface LogEventOptions {
+    // Check meta against the event schema, true unless NODE_ENV is 'production'
+    validate?: boolean;
+    // Throw on invalid meta instead of logging a warning, false unless specified
+    strict?: boolean;
+}
+
+// A logger with a typed event() method, see defineLogEvents
+export type EventLogger<TCatalog extends LogEventCatalog> = Omit<Logger, 'child'> & {
+    event: <TName extends keyof TCatalog & string>(name: TName, meta: LogEventMeta<TCatalog[TName]>) => void;
+    child: (bindings: Record<string, any>, options?: Parameters<Logger['child']>[1]) => EventLogger<TCatalog>;
+};
+
+export interface LogEvents<TCatalog extends LogEventCatalog> {
+    // Every event with its code, level and message filled in
+    events: { [TName in keyof TCatalog]: ResolvedLogEvent };
+    // Add event() to a logger, such as ctx.logger or getLogger()
+    bind: (logger: Logger) => EventLogger<TCatalog>;
+}
+
+function isDefinition(entry: ZodTypeAny | LogEventDefinition): entry is LogEventDefinition {
+    return 'schema' in entry && !('_def' in entry);
+}
+
+/**
+ * Declare the events an application logs, each with a zod schema for its meta, a stable code and a default level.
+ * Bound loggers get an `event()` method whose meta is type-checked against the schema, and checked again
+ * at runtime outside production. The logged meta is the meta passed in, so output doesn't depend on validation.
+ *
+ * @param catalog - Event names mapped to a meta schema or a full definition
+ * @param options - Runtime validation settings
+ * @returns The resolved events and a `bind(logger)` function
+ *
+ * @example
+ * ```typescript
+ * const events = defineLogEvents({
+ *   'order.placed': z.object({ orderId: z.string(), total: z.number() }),
+ *   'payment.failed': { schema: z.object({ orderId: z.string(), reason: z.string() }), code: 'PAY-001', level: 'error' }
+ * });
+ *
+ * events.bind(ctx.logger).event('order.placed', { orderId: 'o-1', total: 42 });
+ * ```
+ */
+export function defineLogEvents<TCatalog extends LogEventCatalog>(
+    catalog: TCatalog,
+    options: LogEventOptions = {}
+): LogEvents<TCatalog> {
+    const { validate = process.env.NODE_ENV !== 'production', strict = false } = options;
+
+    const events = {} as Record<string, ResolvedLogEvent>;
+    const codes = new Set<string>();
+    for (const [name, entry] of Object.entries(catalog)) {
+        const definition = isDefinition(entry) ? entry : { schema: entry };
+        const code = definition.code ?? name;
+        if (codes.has(code)) {
+            throw new Error(`Duplicate log event code "${code}"`);
+        }
+        codes.add(code);
+        events[name] = {
+            name,
+            code,
+            level: definition.level ?? 'info',
+            message: definition.message ?? name,
+            schema: definition.schema
+        };
+    }
+
+    const bind = (logger: Logger): EventLogger<TCatalog> => ({
+        ...logger,
+        event: (name, meta) => {
+            const event = events[name];
+            if (!event) {
+                throw new Error(`Unknown log event "${name}"`);
+            }
+            if (!logger.isLevelEnabled(event.level)) {
+                return;
+            }
+
+            const fields = { event: name, eventCode: event.code };
+            if (validate) {
+                const result = event.schema.safeParse(meta);
+                if (!result.success) {
+                    if (strict) {
+                        throw result.error;
+                    }
+                    logger.warn(`Invalid meta for log event "${name}"`, markLogEvent({ ...fields, error: result.error }, fields));
+                }
+            }
+
+            logger[event.level](event.message, markLogEvent({ ...meta, ...fields }, fields));
+        },
+        child: (bindings, childOptions) => bind(logger.child(bindings, childOptions))
+    });
+
+    return { events: events as LogEvents<TCatalog>['events'], bind };
+}
@@ -0,0 +1,130 @@
+import type { LogRecord } from './record';
+import { matchGlob } from './glob';
+
+// Matches a single meta value: equality, RegExp test, presence check or custom function
+export type MetaMatcher =
+    | string
+    | number
+    | boolean
+    | RegExp
+    | { exists: boolean }
+    | ((value: any) => boolean);
+
+// Every field given must match, arrays of globs match if any glob does
+export interface RecordMatcher {
+    // Glob(s) on the logger name, e.g. 'billing.*'
+    name?: string | string[];
+    // Glob(s) on the procedure path
+    path?: string | string[];
+    // Matchers keyed by meta field, dotted keys reach into nested objects
+    meta?: Record<string, MetaMatcher>;
+}
+
+// Routes records to a pipeline, checked after the level and before formatting
+export interface PipelineFilter {
+    include?: RecordMatcher;
+    exclude?: RecordMatcher;
+    predicate?: (record: LogRecord) => boolean;
+}
+
+function getMetaValue(meta: Record<string, any> | undefined, key: string): any {
+    if (!meta) {
+        return undefined;
+    }
+    if (key in meta) {
+        return meta[key];
+    }
+
+    let value: any = meta;
+    for (const part of key.split('.')) {
+        if (value === null || typeof value !== 'object') {
+            return undefined;
+        }
+        value = value[part];
+    }
+    return value;
+}
+
+function matchMetaValue(value: any, matcher: MetaMatcher): boolean {
+    if (matcher instanceof RegExp) {
+        return typeof value === 'string' && matcher.test(value);
+    }
+    if (typeof matcher === 'function') {
+        return matcher(value);
+    }
+    if (typeof matcher === 'object' && matcher !== null) {
+        return (value !== undefined) === matcher.exists;
+    }
+    return value === matcher;
+}
+
+function matchGlobs(value: string | undefined, patterns: string | string[]): boolean {
+    if (Array.isArray(patterns)) {
+        return patterns.some(pattern => matchGlob(value, pattern));
+    }
+    return matchGlob(value, patterns);
+}
+
+/**
+ * Check whether a record matches every field of a matcher
+ */
+export function matchRecord(record: LogRecord, matcher: RecordMatcher): boolean {
+    if (matcher.name !== undefined && !matchGlobs(record.name, matcher.name)) {
+        return false;
+    }
+    if (matcher.path !== undefined && !matchGlobs(record.path, matcher.path)) {
+        return false;
+    }
+    if (matcher.meta) {
+        for (const key of Object.keys(matcher.meta)) {
+            if (!matchMetaValue(getMetaValue(record.meta, key), matcher.meta[key])) {
+                return false;
+            }
+        }
+    }
+    return true;
+}
+
+/**
+ * Check whether a record passes a pipeline filter
+ */
+export function passesFilter(record: LogRecord, filter: PipelineFilter): boolean {
+    if (filter.include && !matchRecord(record, filter.include)) {
+        return false;
+    }
+    if (filter.exclude && matchRecord(record, filter.exclude)) {
+        return false;
+    }
+    if (filter.predicate && !filter.predicate(record)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Check whether a record with this name and path could pass a filter, before its meta is known.
+ * Only returns false when the name/path matchers alone rule the record out.
+ */
+export function mayPassFilter(filter: PipelineFilter, name: string | undefined, path: string | undefined): boolean {
+    const { include, exclude } = filter;
+
+    if (include) {
+        if (include.name !== undefined && !matchGlobs(name, include.name)) {
+            return false;
+        }
+        if (include.path !== undefined && !matchGlobs(path, include.path)) {
+            return false;
+        }
+    }
+
+    // An exclude matcher that also checks meta can't be decided yet
+    if (exclude && !exclude.meta && (exclude.name !== undefined || exclude.path !== undefined)) {
+        const nameMatches = exclude.name === undefined || matchGlobs(name, exclude.name);
+        const pathMatches = exclude.path === undefined || matchGlobs(path, exclude.path);
+        if (nameMatches && pathMatches) {
+            return false;
+        }
+    }
+
+    return true;
+}
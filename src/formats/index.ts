@@ -1,7 +1,25 @@
-export const timestampFormat = (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    return `[${new Date().toISOString()}] [${name}] ${message}`;
-};
+import { defineFormat } from '../record';
+import { getTraceFields } from '../trace';
+import { safeStringify } from '../serialize';
 
-export const jsonFormat = (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    return JSON.stringify({ timestamp: new Date().toISOString(), name, message, meta });
-}; 
\ No newline at end of file
+export const timestampFormat = defineFormat(record => {
+    return `[${record.timestamp.toISOString()}] [${record.name}] ${record.message}`;
+});
+
+export const jsonFormat = defineFormat(record => {
+    return safeStringify({
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        name: record.name,
+        path: record.path,
+        type: record.type,
+        requestId: record.requestId,
+        ...getTraceFields(record),
+        sampleRate: record.sampleRate,
+        redactions: record.redactions,
+        event: record.event,
+        eventCode: record.eventCode,
+        message: record.message,
+        meta: record.meta
+    });
+});
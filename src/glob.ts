@@ -0,0 +1,32 @@
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Compile a glob pattern into a regular expression.
+ * `*` matches any sequence of characters (including `.`), `?` matches a single character.
+ */
+export function compileGlob(pattern: string): RegExp {
+    let regex = globCache.get(pattern);
+    if (!regex) {
+        const source = pattern
+            .split('')
+            .map(char => {
+                if (char === '*') return '.*';
+                if (char === '?') return '.';
+                return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            })
+            .join('');
+        regex = new RegExp(`^${source}$`);
+        globCache.set(pattern, regex);
+    }
+    return regex;
+}
+
+/**
+ * Check whether a value matches a glob pattern
+ */
+export function matchGlob(value: string | undefined, pattern: string): boolean {
+    if (value === undefined) {
+        return false;
+    }
+    return compileGlob(pattern).test(value);
+}
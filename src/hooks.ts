@@ -0,0 +1,15 @@
+import type { LogRecord } from './record';
+
+// Seams for trpc-logger/testing, not part of the public API
+export interface TestHooks {
+    // Source of record timestamps, replaced by fake clocks
+    now: () => Date;
+    // Called with every record a logger creates, before any pipeline stage
+    onRecord?: (record: LogRecord) => void;
+}
+
+export const realNow = (): Date => new Date();
+
+export const testHooks: TestHooks = {
+    now: realNow
+};
@@ -1,25 +1,78 @@
 import type { ProcedureBuilder } from "@trpc/server/unstable-core-do-not-import"
+import { createLevelController, type LevelController, type LevelMatchMode, type LogLevel } from './levels';
+import { createLogger, type ChildLoggerOptions } from './logger';
+import { getLogger, getRequestContext, runWithRequestContext } from './context';
+import { getSensitivePaths } from './sensitive';
+import type { LogFormat, LogRecord, LogTransport } from './record';
+import type { PipelineFilter } from './filters';
+import type { SamplingConfig } from './sampling';
+import type { DedupeConfig } from './dedupe';
+import type { RedactConfig } from './redact';
+import type { ScrubConfig } from './scrub';
 
 // Logger pipeline interface
 export interface LoggerPipeline {
     name: string;
-    level?: 'error' | 'warn' | 'info' | 'debug';
-    format?: (name: string | undefined, message: string, meta?: Record<string, any>) => string;
-    transport: (name: string | undefined, message: string, meta?: Record<string, any>) => void;
+    // Minimum severity this pipeline receives (or the only level, when levelMatch is 'exact')
+    level?: LogLevel;
+    levelMatch?: LevelMatchMode;
+    // Include/exclude records by name, path and meta before they are formatted
+    filter?: PipelineFilter;
+    // Keep only a share of records, checked after filters
+    sampling?: SamplingConfig;
+    // Collapse identical records within a time window into one summary
+    dedupe?: DedupeConfig;
+    // Censor or remove sensitive meta fields before the record is formatted
+    redact?: RedactConfig;
+    // Replace PII found inside the message and meta strings, after redaction. `true` runs every built-in detector
+    scrub?: ScrubConfig | true;
+    // Legacy (name, message, meta) functions or record-based ones from defineFormat/defineTransport
+    format?: LogFormat;
+    transport: LogTransport;
+    // Receives records the transport rejected, by throwing or with a rejected promise
+    fallback?: LogTransport;
+}
+
+// Passed to onTransportError alongside the error
+export interface TransportErrorContext {
+    pipeline: string;
+    record: LogRecord;
+    // True when the fallback transport failed as well
+    fallback: boolean;
 }
 
 // Pipeline configuration interface
 export interface PipelineConfig {
     pipelines: LoggerPipeline[];
-    defaultLevel?: 'error' | 'warn' | 'info' | 'debug';
+    defaultLevel?: LogLevel;
+    // Default level matching for pipelines that don't set their own, 'threshold' unless specified
+    levelMatch?: LevelMatchMode;
+    // Called when a pipeline fails to deliver a record, errors are logged to console.error when omitted
+    onTransportError?: (error: unknown, context: TransportErrorContext) => void;
+    // Name of withLogger() loggers, such as '${service}:${path}'. '${name}' unless specified
+    nameTemplate?: string;
+    // Extra variables for nameTemplate, such as { service: 'billing' }
+    nameVariables?: Record<string, string>;
 }
 
+// Message and meta can be passed as thunks, evaluated only if some pipeline may accept the record
+export type LogMethod = (
+    message: string | (() => string),
+    meta?: Record<string, any> | (() => Record<string, any> | undefined)
+) => void;
+
 // Logger interface with level-specific methods
 export interface Logger {
-    error: (message: string, meta?: Record<string, any>) => void;
-    warn: (message: string, meta?: Record<string, any>) => void;
-    info: (message: string, meta?: Record<string, any>) => void;
-    debug: (message: string, meta?: Record<string, any>) => void;
+    fatal: LogMethod;
+    error: LogMethod;
+    warn: LogMethod;
+    info: LogMethod;
+    debug: LogMethod;
+    trace: LogMethod;
+    // Whether a call at this level would reach any pipeline, before meta-based filters and sampling
+    isLevelEnabled: (level: LogLevel) => boolean;
+    // Create a logger that merges `bindings` into the meta of every call
+    child: (bindings: Record<string, any>, options?: ChildLoggerOptions) => Logger;
 }
 
 // Extended procedure builder type
@@ -42,6 +95,9 @@ export type ExtendedProcedureBuilder<
     TOutputOut,
     TCaller
 > & {
+    // Runtime level control shared by every procedure built from this base
+    levels: LevelController;
+    // Add ctx.logger, named after the procedure path unless a name is given, see PipelineConfig.nameTemplate
     withLogger: <TName extends string>(
         name?: TName
     ) => ExtendedProcedureBuilder<
@@ -58,12 +114,41 @@ export type ExtendedProcedureBuilder<
     >;
 };
 
+// One level controller per configuration, shared by every builder derived from it
+const levelControllers = new WeakMap<PipelineConfig, LevelController>();
+
+const NAME_VARIABLE = /\$\{(\w+)\}/g;
+
+// Builds logger names from the config's nameTemplate, checking its variables up front
+function createNameResolver(config: PipelineConfig, name: string | undefined) {
+    const { nameTemplate = '${name}', nameVariables = {} } = config;
+
+    for (const [, variable] of nameTemplate.matchAll(NAME_VARIABLE)) {
+        if (!['name', 'path', 'type'].includes(variable) && !(variable in nameVariables)) {
+            throw new Error(`Unknown logger name variable "${variable}" in "${nameTemplate}"`);
+        }
+    }
+
+    // The name only depends on the procedure when the template uses its path or type, or no name was given
+    const isStatic = name !== undefined && !/\$\{(path|type)\}/.test(nameTemplate);
+
+    const resolve = (path?: string, type?: string) => {
+        const variables: Record<string, string | undefined> = { ...nameVariables, name: name ?? path, path, type };
+        return nameTemplate.replace(NAME_VARIABLE, (_match, variable: string) => variables[variable] ?? '');
+    };
+
+    return { isStatic, resolve };
+}
+
+// Input parsers of a builder whose sensitive paths are already recorded by one of its middlewares
+const coveredInputs = new WeakMap<object, number>();
+
 /**
  * Creates a logged procedure with pipeline configurations.
  * 
  * @param base - A tRPC ProcedureBuilder instance
  * @param config - Pipeline configuration with logging pipelines
- * @returns An ExtendedProcedureBuilder with logging capabilities
+ * @returns An ExtendedProcedureBuilder with logging capabilities and a `levels` controller
  * 
  * @example
  * ```typescript
@@ -74,6 +159,9 @@ export type ExtendedProcedureBuilder<
  *     transport: (name, message, meta) => console.log(message, meta)
  *   }]
  * });
+ *
+ * // Later, without restarting the server
+ * procedure.levels.setLevel('debug', { procedure: 'user.*' });
  * ```
  */
 export function loggedProcedure<
@@ -107,41 +195,65 @@ export function loggedProcedure<
     TOutputOut,
     TCaller
 > {
-    const { pipelines, defaultLevel = 'info' } = config;
+    let levels = levelControllers.get(config);
+    if (!levels) {
+        levels = createLevelController(config);
+        levelControllers.set(config, levels);
+    }
+
+    // Record the fields tagged sensitive in input schemas not seen yet, including schemas added before
+    // loggedProcedure, for the logging and performance middlewares
+    const parsers = base._def?.inputs ?? [];
+    const paths = parsers.slice(coveredInputs.get(base) ?? 0).flatMap(parser => getSensitivePaths(parser));
+    const builder = paths.length === 0 ? base : base.use(async ({ next }) => {
+        const current = getRequestContext() ?? { logger: getLogger() };
+        const sensitivePaths = [...(current.sensitivePaths ?? []), ...paths];
+        return runWithRequestContext({ ...current, sensitivePaths }, () => next());
+    }) as typeof base;
+    const extend = <TBuilder extends object>(next: TBuilder) => {
+        coveredInputs.set(next, parsers.length);
+        return next;
+    };
 
     const withLogger = <TName extends string>(name?: TName) => {
-        const createLoggerMethod = (level: 'error' | 'warn' | 'info' | 'debug') => {
-            return (message: string, meta?: Record<string, any>) => {
-                // Filter pipelines by level
-                const levelPipelines = pipelines.filter(pipeline => {
-                    const pipelineLevel = pipeline.level || defaultLevel;
-                    return pipelineLevel === level;
-                });
-
-                for (const pipeline of levelPipelines) {
-                    const formattedMessage = pipeline.format
-                        ? pipeline.format(name, message, meta)
-                        : `[${level.toUpperCase()}] [${name}] ${message}`;
-
-                    pipeline.transport(name, formattedMessage, meta);
-                }
-            };
-        };
+        const { isStatic, resolve } = createNameResolver(config, name);
+        const staticName = isStatic ? resolve() : undefined;
+        const staticLogger = staticName !== undefined ? createLogger(config, staticName, { levels }) : undefined;
 
-        const logger: Logger = {
-            error: createLoggerMethod('error'),
-            warn: createLoggerMethod('warn'),
-            info: createLoggerMethod('info'),
-            debug: createLoggerMethod('debug'),
+        // Without a name, or with a template using the path or type, each procedure gets its own logger
+        const loggers = new Map<string, Logger>();
+        const getProcedureLogger = (loggerName: string) => {
+            let logger = loggers.get(loggerName);
+            if (!logger) {
+                logger = createLogger(config, loggerName, { levels });
+                loggers.set(loggerName, logger);
+            }
+            return logger;
         };
 
-        const newBuilder = base.use(async (opts) => {
-            return opts.next({
+        const newBuilder = builder.use(async (opts) => {
+            const loggerName = staticName ?? resolve(opts.path, opts.type);
+            const logger = staticLogger ?? getProcedureLogger(loggerName);
+
+            // Keep the correlation id and trace context when createRequestIdMiddleware ran before withLogger
+            const current = getRequestContext();
+            const { requestId = current?.requestId } = opts.ctx as { requestId?: string };
+            const context = {
+                logger,
+                name: loggerName,
+                path: opts.path,
+                type: opts.type,
+                requestId,
+                trace: current?.trace,
+                sensitivePaths: current?.sensitivePaths
+            };
+
+            return runWithRequestContext(context, () => opts.next({
                 ctx: {
                     ...opts.ctx,
                     logger,
                 },
-            });
+            }));
         }) as ProcedureBuilder<
             TContext,
             TMeta,
@@ -155,12 +267,19 @@ export function loggedProcedure<
             TCaller
         >;
 
-        return loggedProcedure(newBuilder, config);
+        return loggedProcedure(extend(newBuilder), config);
     };
 
-    return Object.assign(base, {
+    // Keeps withLogger and sensitive field masking on builders with more input
+    const input = ((schema) => loggedProcedure(extend(builder.input(schema)), config)) as typeof builder.input;
+
+    // A new object, so the builder passed in, such as the shared t.procedure, keeps tRPC's own methods
+    return {
+        ...builder,
+        levels,
         withLogger,
-    });
+        input,
+    };
 }
 
 /**
@@ -203,6 +322,40 @@ export function extendProcedure<
     return loggedProcedure(base, { pipelines: [] });
 }
 
+// Re-export log levels and the logger factory
+export * from './levels';
+export * from './logger';
+
+// Re-export the log record contract
+export * from './record';
+
+// Re-export pipeline filters
+export * from './filters';
+
+// Re-export sampling
+export * from './sampling';
+
+// Re-export dedupe
+export * from './dedupe';
+
+// Re-export request context helpers
+export * from './context';
+
+// Re-export trace context helpers
+export * from './trace';
+
+// Re-export redaction, PII scrubbing and sensitive input fields
+export * from './redact';
+export * from './scrub';
+export * from './sensitive';
+
+// Re-export the typed event catalog
+export * from './events';
+
+// Re-export error and safe serialization
+export * from './errors';
+export * from './serialize';
+
 // Re-export formats and transports for convenience
 export * from './formats';
 export * from './transports';
@@ -0,0 +1,134 @@
+import type { PipelineConfig } from './index';
+import { matchGlob } from './glob';
+
+// Supported log levels, ordered from least to most severe
+export const LOG_LEVELS = ['trace', 'debug', 'info', 'warn', 'error', 'fatal'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// How a pipeline's level is compared against the level of a log call
+export type LevelMatchMode = 'threshold' | 'exact';
+
+// Numeric severity for each level, higher is more severe
+export const LOG_LEVEL_SEVERITY: Record<LogLevel, number> = {
+    trace: 10,
+    debug: 20,
+    info: 30,
+    warn: 40,
+    error: 50,
+    fatal: 60
+};
+
+/**
+ * Check whether a log call at `level` should reach a pipeline configured with `pipelineLevel`.
+ * In 'threshold' mode the pipeline level is a minimum severity, in 'exact' mode only the same level matches.
+ */
+export function levelMatches(
+    level: LogLevel,
+    pipelineLevel: LogLevel,
+    mode: LevelMatchMode = 'threshold'
+): boolean {
+    if (mode === 'exact') {
+        return level === pipelineLevel;
+    }
+    return LOG_LEVEL_SEVERITY[level] >= LOG_LEVEL_SEVERITY[pipelineLevel];
+}
+
+// Selects which pipelines and procedures a runtime level override applies to
+export interface LevelOverrideTarget {
+    // Pipeline name, all pipelines when omitted
+    pipeline?: string;
+    // Logger name glob such as 'user.*', all procedures when omitted
+    procedure?: string;
+}
+
+export interface LevelOverride extends LevelOverrideTarget {
+    level: LogLevel;
+}
+
+// Changes pipeline levels while the server is running
+export interface LevelController {
+    // Override the level for matching pipelines/procedures, taking effect on the next log call
+    setLevel: (level: LogLevel, target?: LevelOverrideTarget) => void;
+    // Remove the override for exactly this target
+    clearLevel: (target?: LevelOverrideTarget) => void;
+    // Remove every override, returning to the configured levels
+    reset: () => void;
+    // Effective level of a pipeline for a logger name
+    getLevel: (pipeline: string, name?: string) => LogLevel;
+    getOverrides: () => LevelOverride[];
+    // Incremented on every change, so loggers know when to rebuild their dispatch tables
+    readonly version: number;
+}
+
+/**
+ * Create a controller for changing pipeline levels at runtime.
+ *
+ * When several overrides match a log call, one naming both pipeline and procedure wins over one
+ * naming only a procedure, which wins over one naming only a pipeline. Ties go to the most recent.
+ *
+ * @param config - The pipeline configuration whose levels are controlled, read again on each call
+ * @returns A LevelController
+ *
+ * @example
+ * ```typescript
+ * const levels = createLevelController(config);
+ * levels.setLevel('debug', { procedure: 'user.*' });
+ * // ...incident over
+ * levels.clearLevel({ procedure: 'user.*' });
+ * ```
+ */
+export function createLevelController(config: PipelineConfig): LevelController {
+    let overrides: LevelOverride[] = [];
+    let version = 0;
+
+    const isSameTarget = (override: LevelOverride, target: LevelOverrideTarget) =>
+        override.pipeline === target.pipeline && override.procedure === target.procedure;
+
+    const specificity = (override: LevelOverride) =>
+        (override.pipeline !== undefined ? 1 : 0) + (override.procedure !== undefined ? 2 : 0);
+
+    return {
+        setLevel: (level, target = {}) => {
+            if (!(LOG_LEVELS as readonly string[]).includes(level)) {
+                throw new Error(`Unknown log level: ${level}`);
+            }
+            // Read from the config on each call, so pipelines added or replaced later can be targeted
+            if (target.pipeline !== undefined && !config.pipelines.some(pipeline => pipeline.name === target.pipeline)) {
+                throw new Error(`Unknown pipeline: ${target.pipeline}`);
+            }
+
+            overrides = overrides.filter(override => !isSameTarget(override, target));
+            overrides.push({ ...target, level });
+            version++;
+        },
+        clearLevel: (target = {}) => {
+            overrides = overrides.filter(override => !isSameTarget(override, target));
+            version++;
+        },
+        reset: () => {
+            overrides = [];
+            version++;
+        },
+        getLevel: (pipelineName, name) => {
+            let match: LevelOverride | undefined;
+            for (const override of overrides) {
+                if (override.pipeline !== undefined && override.pipeline !== pipelineName) continue;
+                if (override.procedure !== undefined && !matchGlob(name, override.procedure)) continue;
+                if (!match || specificity(override) >= specificity(match)) {
+                    match = override;
+                }
+            }
+            if (match) {
+                return match.level;
+            }
+
+            const pipeline = config.pipelines.find(p => p.name === pipelineName);
+            return pipeline?.level || config.defaultLevel || 'info';
+        },
+        getOverrides: () => overrides.map(override => ({ ...override })),
+        get version() {
+            return version;
+        }
+    };
+}
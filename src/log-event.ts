@@ -0,0 +1,21 @@
+import type { LogRecord } from './record';
+
+// Set on meta passed by event(), so loggers fill LogRecord.event and eventCode only for catalog events and never from user meta
+const LOG_EVENT: unique symbol = Symbol('trpc-logger.event');
+
+type LogEventFields = Pick<LogRecord, 'event' | 'eventCode'>;
+
+// Non-enumerable, so the marker isn't copied into bound meta or written by formats
+export function markLogEvent<TMeta extends object>(meta: TMeta, fields: LogEventFields): TMeta {
+    Object.defineProperty(meta, LOG_EVENT, { value: fields });
+    return meta;
+}
+
+/**
+ * Event name and code of meta logged with `event()`, undefined for any other meta
+ */
+export function getLogEvent(meta: object | undefined): LogEventFields | undefined {
+    return typeof meta === 'object' && meta !== null && LOG_EVENT in meta
+        ? (meta as { [LOG_EVENT]: LogEventFields })[LOG_EVENT]
+        : undefined;
+}
@@ -0,0 +1,515 @@
+import type { Logger, LogMethod, LoggerPipeline, PipelineConfig, TransportErrorContext } from './index';
+import { levelMatches, LOG_LEVELS, LOG_LEVEL_SEVERITY, type LevelController, type LogLevel } from './levels';
+import { defaultFormat, toRecordFormat, toRecordTransport, type LogRecord } from './record';
+import { getRequestContext } from './context';
+import { getTraceContext } from './trace';
+import { serializeError } from './errors';
+import { mayPassFilter, passesFilter } from './filters';
+import { createSampler, type Sampler } from './sampling';
+import { createDeduper, type Deduper } from './dedupe';
+import { createRedactor } from './redact';
+import { createScrubber } from './scrub';
+import { testHooks } from './hooks';
+import { getLogEvent } from './log-event';
+
+type RecordTransportFn = ReturnType<typeof toRecordTransport>;
+
+export interface ChildLoggerOptions {
+    // Appended to the parent's name as `${parent}:${name}`
+    name?: string;
+}
+
+export interface CreateLoggerOptions {
+    // Fields merged into the meta of every call
+    bindings?: Record<string, any>;
+    // Runtime level overrides, consulted on every call
+    levels?: LevelController;
+}
+
+// A pipeline with its format and transport adapted to records and its stateful stages created
+interface CompiledPipeline {
+    pipeline: LoggerPipeline;
+    // Identifies the format, so pipelines sharing a format run it once per record
+    formatKey: unknown;
+    // Formats a record, falling back to the default format if the pipeline's format throws
+    format: (record: LogRecord) => string;
+    // Delivers a formatted record, isolating transport failures
+    deliver: (record: LogRecord, formatted: string) => void;
+    // Returns a copy of a record with the pipeline's redaction and scrubbing applied, for pipelines with either
+    redact?: (record: LogRecord) => LogRecord;
+    // Redacts, scrubs, formats and delivers a record
+    emit: (record: LogRecord) => void;
+    // Emit pending dedupe summaries and wait for the transport and fallback to deliver
+    flush: () => Promise<void>;
+    // Like flush, then close the transport and fallback
+    close: () => Promise<void>;
+    sampler?: Sampler;
+    deduper?: Deduper;
+}
+
+// The compiled pipelines of a configuration, with what its dispatch tables depend on
+interface CompiledConfig {
+    pipelines: CompiledPipeline[];
+    // The pipelines array, default level and level match, then each pipeline with its level and level match
+    snapshot: unknown[];
+    // Bumped whenever the pipelines are recompiled
+    version: number;
+}
+
+// Compiled once per configuration so every logger built from it shares sampling budgets and dedupe windows
+const compiledConfigs = new WeakMap<PipelineConfig, CompiledConfig>();
+
+// WeakRef and FinalizationRegistry, which the ES2020 lib doesn't declare
+interface WeakReference<T> {
+    deref(): T | undefined;
+}
+const { WeakRef, FinalizationRegistry } = globalThis as unknown as {
+    WeakRef: new <T extends object>(target: T) => WeakReference<T>;
+    FinalizationRegistry: new <T>(cleanup: (held: T) => void) => { register(target: object, held: T): void };
+};
+
+// Compiled configurations drained by flush() and shutdown(), held weakly so unused configs can be collected
+const activePipelines = new Set<WeakReference<CompiledConfig>>();
+const collectedPipelines = new FinalizationRegistry<WeakReference<CompiledConfig>>(ref => {
+    activePipelines.delete(ref);
+});
+
+export interface ShutdownOptions {
+    // Give up waiting after this many milliseconds, 5000 unless specified
+    timeoutMs?: number;
+}
+
+export interface ShutdownResult {
+    // False when the timeout passed before every pipeline finished
+    drained: boolean;
+    errors: unknown[];
+}
+
+function reportTransportError(
+    config: PipelineConfig,
+    error: unknown,
+    context: TransportErrorContext
+): void {
+    try {
+        if (config.onTransportError) {
+            config.onTransportError(error, context);
+        } else {
+            console.error(`Transport error in pipeline "${context.pipeline}":`, error);
+        }
+    } catch {
+        // A failing error hook must not break the procedure either
+    }
+}
+
+// Call a transport, routing sync throws and async rejections to onError
+function runTransport(
+    transport: RecordTransportFn,
+    record: LogRecord,
+    formatted: string,
+    onError: (error: unknown) => void
+): void {
+    try {
+        const result = transport(record, formatted);
+        if (result && typeof result.then === 'function') {
+            result.then(undefined, onError);
+        }
+    } catch (error) {
+        onError(error);
+    }
+}
+
+function compilePipeline(config: PipelineConfig, pipeline: LoggerPipeline): CompiledPipeline {
+    const format = pipeline.format ? toRecordFormat(pipeline.format) : defaultFormat;
+    const transport = toRecordTransport(pipeline.transport);
+    const fallback = pipeline.fallback ? toRecordTransport(pipeline.fallback) : undefined;
+
+    const safeFormat = (record: LogRecord) => {
+        try {
+            return format(record);
+        } catch (error) {
+            reportTransportError(config, error, { pipeline: pipeline.name, record, fallback: false });
+            return defaultFormat(record);
+        }
+    };
+
+    const deliver = (record: LogRecord, formatted: string) => {
+        runTransport(transport, record, formatted, error => {
+            reportTransportError(config, error, { pipeline: pipeline.name, record, fallback: false });
+            if (fallback) {
+                runTransport(fallback, record, formatted, fallbackError => {
+                    reportTransportError(config, fallbackError, { pipeline: pipeline.name, record, fallback: true });
+                });
+            }
+        });
+    };
+
+    const redactor = pipeline.redact ? createRedactor(pipeline.redact) : undefined;
+    const scrubber = pipeline.scrub ? createScrubber(pipeline.scrub === true ? {} : pipeline.scrub) : undefined;
+    const redact = redactor || scrubber
+        ? (record: LogRecord): LogRecord => {
+            const meta = redactor ? redactor(record.meta) : record.meta;
+            if (!scrubber) {
+                return { ...record, meta };
+            }
+            const scrubbedMessage = scrubber(record.message);
+            const scrubbedMeta = scrubber(meta);
+            return {
+                ...record,
+                message: scrubbedMessage.value,
+                meta: scrubbedMeta.value,
+                redactions: scrubbedMessage.redactions + scrubbedMeta.redactions
+            };
+        }
+        : undefined;
+
+    const emit = (record: LogRecord) => {
+        const redacted = redact ? redact(record) : record;
+        deliver(redacted, safeFormat(redacted));
+    };
+
+    const deduper = pipeline.dedupe ? createDeduper(pipeline.dedupe, emit) : undefined;
+    const lifecycles = pipeline.fallback ? [pipeline.transport, pipeline.fallback] : [pipeline.transport];
+
+    return {
+        pipeline,
+        formatKey: pipeline.format ?? defaultFormat,
+        format: safeFormat,
+        deliver,
+        redact,
+        emit,
+        flush: async () => {
+            deduper?.flush();
+            for (const lifecycle of lifecycles) {
+                await lifecycle.flush?.();
+            }
+        },
+        close: async () => {
+            deduper?.flush();
+            // The transport is closed first so records it rejects while draining still reach the fallback
+            for (const lifecycle of lifecycles) {
+                await (lifecycle.close ? lifecycle.close() : lifecycle.flush?.());
+            }
+        },
+        sampler: pipeline.sampling ? createSampler(pipeline.sampling) : undefined,
+        deduper
+    };
+}
+
+function snapshotConfig(config: PipelineConfig): unknown[] {
+    const snapshot: unknown[] = [config.pipelines, config.defaultLevel, config.levelMatch];
+    for (const pipeline of config.pipelines) {
+        snapshot.push(pipeline, pipeline.level, pipeline.levelMatch);
+    }
+    return snapshot;
+}
+
+// Compared on every call without allocating, so changes made to a config after use still take effect
+function matchesSnapshot(config: PipelineConfig, snapshot: unknown[]): boolean {
+    const { pipelines } = config;
+    if (snapshot[0] !== pipelines || snapshot[1] !== config.defaultLevel || snapshot[2] !== config.levelMatch
+        || snapshot.length !== 3 + pipelines.length * 3) {
+        return false;
+    }
+    for (let i = 0; i < pipelines.length; i++) {
+        const pipeline = pipelines[i];
+        const offset = 3 + i * 3;
+        if (snapshot[offset] !== pipeline || snapshot[offset + 1] !== pipeline.level || snapshot[offset + 2] !== pipeline.levelMatch) {
+            return false;
+        }
+    }
+    return true;
+}
+
+function compilePipelines(config: PipelineConfig): CompiledConfig {
+    let compiled = compiledConfigs.get(config);
+    if (!compiled) {
+        compiled = {
+            pipelines: config.pipelines.map(pipeline => compilePipeline(config, pipeline)),
+            snapshot: snapshotConfig(config),
+            version: 0
+        };
+        compiledConfigs.set(config, compiled);
+        const ref = new WeakRef(compiled);
+        activePipelines.add(ref);
+        collectedPipelines.register(compiled, ref);
+    } else if (!matchesSnapshot(config, compiled.snapshot)) {
+        // Pipelines kept in the config keep their compiled state, such as sampling budgets and dedupe windows
+        const previous = new Map(compiled.pipelines.map(entry => [entry.pipeline, entry]));
+        compiled.pipelines = config.pipelines.map(pipeline => previous.get(pipeline) ?? compilePipeline(config, pipeline));
+        compiled.snapshot = snapshotConfig(config);
+        compiled.version++;
+    }
+    return compiled;
+}
+
+/**
+ * Create a logger that writes to the given pipelines.
+ *
+ * @param config - Pipeline configuration with logging pipelines
+ * @param name - Logger name passed to formats and transports
+ * @param options - Bound fields and runtime level controller
+ * @returns A Logger with level-specific methods
+ *
+ * @example
+ * ```typescript
+ * const logger = createLogger(config, 'user.update');
+ * const dbLogger = logger.child({ userId }, { name: 'db' }); // named 'user.update:db'
+ * ```
+ */
+export function createLogger(
+    config: PipelineConfig,
+    name?: string,
+    options: CreateLoggerOptions = {}
+): Logger {
+    const { bindings, levels } = options;
+
+    const compiled = compilePipelines(config);
+    let hasFilters = false;
+
+    // Pipelines accepting each level, rebuilt only when runtime levels or the config change
+    const buildDispatchTable = () => {
+        const { defaultLevel = 'info', levelMatch = 'threshold' } = config;
+        hasFilters = compiled.pipelines.some(({ pipeline }) => pipeline.filter);
+        const table = {} as Record<LogLevel, CompiledPipeline[]>;
+        for (const level of LOG_LEVELS) {
+            table[level] = compiled.pipelines.filter(({ pipeline }) => {
+                const pipelineLevel = levels
+                    ? levels.getLevel(pipeline.name, name)
+                    : pipeline.level || defaultLevel;
+                return levelMatches(level, pipelineLevel, pipeline.levelMatch || levelMatch);
+            });
+        }
+        return table;
+    };
+
+    let dispatchTable = buildDispatchTable();
+    let dispatchVersion = levels ? levels.version : 0;
+    let configVersion = compiled.version;
+
+    // Pipelines that accept a level, and that are not ruled out by name/path filters
+    const getCandidates = (level: LogLevel): CompiledPipeline[] => {
+        if (!matchesSnapshot(config, compiled.snapshot)) {
+            compilePipelines(config);
+        }
+        const version = levels ? levels.version : 0;
+        if (version !== dispatchVersion || compiled.version !== configVersion) {
+            dispatchTable = buildDispatchTable();
+            dispatchVersion = version;
+            configVersion = compiled.version;
+        }
+
+        const candidates = dispatchTable[level];
+        if (!hasFilters || candidates.length === 0) {
+            return candidates;
+        }
+
+        const path = getRequestContext()?.path;
+        return candidates.filter(({ pipeline }) => !pipeline.filter || mayPassFilter(pipeline.filter, name, path));
+    };
+
+    const createLoggerMethod = (level: LogLevel): LogMethod => {
+        return (message, meta) => {
+            const levelPipelines = getCandidates(level);
+
+            if (levelPipelines.length === 0) {
+                return;
+            }
+
+            // Thunks are only evaluated once some pipeline may accept the record
+            let resolvedMessage: string;
+            let resolvedMeta: Record<string, any> | undefined;
+            try {
+                resolvedMessage = typeof message === 'function' ? message() : message;
+                resolvedMeta = typeof meta === 'function' ? meta() : meta;
+            } catch (error) {
+                // A throwing thunk drops the call and is reported like a transport error, never reaching the caller
+                const record = createRecord(level, name, typeof message === 'string' ? message : '[unresolved message]', bindings);
+                for (const { pipeline } of levelPipelines) {
+                    reportTransportError(config, error, { pipeline: pipeline.name, record, fallback: false });
+                }
+                return;
+            }
+
+            // Bound fields come first so call-site meta can override them
+            const finalMeta = bindings ? { ...bindings, ...resolvedMeta } : resolvedMeta;
+
+            // Read before merging bindings, which doesn't copy the event marker
+            const record = createRecord(level, name, resolvedMessage, finalMeta, getLogEvent(resolvedMeta));
+            testHooks.onRecord?.(record);
+
+            // Output of each distinct format for this record, shared between pipelines
+            let formatCache: Map<unknown, string> | undefined;
+
+            for (const { pipeline, formatKey, format, deliver, redact, sampler, deduper } of levelPipelines) {
+                try {
+                    if (pipeline.filter && !passesFilter(record, pipeline.filter)) {
+                        continue;
+                    }
+
+                    let pipelineRecord = record;
+                    if (sampler) {
+                        const sampleRate = sampler(record);
+                        if (sampleRate === undefined) {
+                            continue;
+                        }
+                        pipelineRecord = { ...record, sampleRate };
+                    }
+
+                    if (deduper && !deduper.check(pipelineRecord)) {
+                        continue;
+                    }
+
+                    if (redact) {
+                        pipelineRecord = redact(pipelineRecord);
+                    }
+
+                    let formatted: string | undefined;
+                    if (pipelineRecord === record) {
+                        formatCache = formatCache ?? new Map();
+                        formatted = formatCache.get(formatKey);
+                        if (formatted === undefined) {
+                            formatted = format(record);
+                            formatCache.set(formatKey, formatted);
+                        }
+                    } else {
+                        formatted = format(pipelineRecord);
+                    }
+
+                    deliver(pipelineRecord, formatted);
+                } catch (error) {
+                    // Errors from filter predicates or sampling keys are isolated like transport errors
+                    reportTransportError(config, error, { pipeline: pipeline.name, record, fallback: false });
+                }
+            }
+        };
+    };
+
+    return {
+        fatal: createLoggerMethod('fatal'),
+        error: createLoggerMethod('error'),
+        warn: createLoggerMethod('warn'),
+        info: createLoggerMethod('info'),
+        debug: createLoggerMethod('debug'),
+        trace: createLoggerMethod('trace'),
+        isLevelEnabled: (level: LogLevel) => getCandidates(level).length > 0,
+        child: (childBindings: Record<string, any>, options: ChildLoggerOptions = {}) => {
+            const childName = options.name
+                ? (name ? `${name}:${options.name}` : options.name)
+                : name;
+
+            return createLogger(config, childName, {
+                bindings: { ...bindings, ...childBindings },
+                levels
+            });
+        },
+    };
+}
+
+const ERROR_META_KEYS = ['error', 'err'];
+
+/**
+ * Build the record for a log call, filling request fields from the current request context
+ */
+function createRecord(
+    level: LogLevel,
+    name: string | undefined,
+    message: string,
+    meta?: Record<string, any>,
+    logEvent?: Pick<LogRecord, 'event' | 'eventCode'>
+): LogRecord {
+    const context = getRequestContext();
+    const trace = getTraceContext();
+    const error = meta?.error instanceof Error
+        ? meta.error
+        : meta?.err instanceof Error ? meta.err : undefined;
+
+    // Errors stringify to {}, so error meta keys are serialized for formats and transports
+    if (error) {
+        meta = { ...meta };
+        for (const key of ERROR_META_KEYS) {
+            if (meta[key] instanceof Error) {
+                meta[key] = serializeError(meta[key]);
+            }
+        }
+    }
+
+    return {
+        level,
+        severity: LOG_LEVEL_SEVERITY[level],
+        timestamp: testHooks.now(),
+        name,
+        path: context?.path,
+        type: context?.type,
+        message,
+        meta,
+        error,
+        // Meta can carry any value, and the record field is only set from a string
+        requestId: typeof meta?.requestId === 'string' ? meta.requestId : context?.requestId,
+        event: logEvent?.event,
+        eventCode: logEvent?.eventCode,
+        traceId: trace?.traceId,
+        spanId: trace?.spanId,
+        traceFlags: trace?.traceFlags
+    };
+}
+
+async function drainPipelines(
+    action: (pipeline: CompiledPipeline) => Promise<void>,
+    options: ShutdownOptions,
+    release = false
+): Promise<ShutdownResult> {
+    const { timeoutMs = 5000 } = options;
+    const errors: unknown[] = [];
+    const pipelines: CompiledPipeline[] = [];
+    for (const ref of activePipelines) {
+        const compiled = ref.deref();
+        if (!compiled || release) {
+            activePipelines.delete(ref);
+        }
+        if (compiled) {
+            pipelines.push(...compiled.pipelines);
+        }
+    }
+
+    const drained = Promise.all(pipelines.map(pipeline =>
+        action(pipeline).catch(error => {
+            errors.push(error);
+        })
+    )).then(() => true);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), timeoutMs);
+        timer.unref?.();
+    });
+
+    const result = await Promise.race([drained, timedOut]);
+    clearTimeout(timer);
+    return { drained: result, errors };
+}
+
+/**
+ * Wait for every pipeline to deliver the records it has accepted
+ */
+export function flush(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    return drainPipelines(pipeline => pipeline.flush(), options);
+}
+
+/**
+ * Drain and close every pipeline, for use in SIGTERM handlers.
+ * Records logged afterwards are rejected by closed transports, and later flush() and shutdown()
+ * calls skip the closed pipelines.
+ *
+ * @example
+ * ```typescript
+ * process.once('SIGTERM', async () => {
+ *   await server.close();
+ *   const { drained } = await shutdown({ timeoutMs: 10_000 });
+ *   process.exit(drained ? 0 : 1);
+ * });
+ * ```
+ */
+export function shutdown(options: ShutdownOptions = {}): Promise<ShutdownResult> {
+    // Closed pipelines are not drained again
+    return drainPipelines(pipeline => pipeline.close(), options, true);
+}
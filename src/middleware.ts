@@ -1,5 +1,25 @@
+import { randomUUID } from 'crypto';
 import type { Logger } from './index';
 import type { ProcedureBuilder } from "@trpc/server/unstable-core-do-not-import";
+import { getLogger, getRequestContext, runWithRequestContext } from './context';
+import { loadOpenTelemetry } from './otel';
+import { parseTraceparent } from './trace';
+import { serializeError, type ErrorFields } from './errors';
+import { createRedactor, type RedactRule, type Redactor } from './redact';
+import { redactSensitiveInput } from './sensitive';
+import type { LogLevel } from './levels';
+
+// Levels of the records the middlewares write
+export interface MiddlewareLevels {
+    // 'Request started', info unless specified
+    request?: LogLevel;
+    // 'Request completed' (info) and 'Procedure completed' (debug) unless specified
+    response?: LogLevel;
+    // 'Slow query detected', warn unless specified
+    slow?: LogLevel;
+    // 'Request failed', 'Procedure error' and 'Procedure failed', error unless specified
+    error?: LogLevel;
+}
 
 export interface MiddlewareConfig {
     logRequests: boolean;
@@ -7,9 +27,44 @@ export interface MiddlewareConfig {
     logErrors: boolean;
     includeHeaders: boolean;
     includeBody: boolean;
-    maskSensitiveFields: string[];
+    // Redact paths, see RedactConfig. Plain keys match at any depth, case-insensitively
+    maskSensitiveFields: RedactRule[];
     performanceMonitoring: boolean;
     slowQueryThreshold: number;
+    levels?: MiddlewareLevels;
+    // Fraction of calls whose request and response records are written. Failures and slow queries are always logged
+    sampleRate?: number;
+}
+
+// Per-procedure overrides set with `.meta({ logging })`, merged over the middleware config
+export interface ProcedureLoggingMeta extends Partial<MiddlewareConfig> {
+    // false turns off the logging, error handling, performance and auth logging middlewares for the procedure
+    enabled?: boolean;
+}
+
+// Procedure meta read by the middlewares, for initTRPC.meta<LoggingMeta>().create()
+export interface LoggingMeta {
+    logging?: ProcedureLoggingMeta;
+}
+
+function getProcedureLogging(opts: any): ProcedureLoggingMeta {
+    return opts.meta?.logging ?? {};
+}
+
+// Procedures can replace maskSensitiveFields, so redactors are compiled once per list of rules
+const maskRedactors = new WeakMap<RedactRule[], Redactor>();
+
+function getMaskRedactor(rules: RedactRule[]): Redactor {
+    let redactor = maskRedactors.get(rules);
+    if (!redactor) {
+        redactor = createRedactor({ paths: rules, censor: '[MASKED]' });
+        maskRedactors.set(rules, redactor);
+    }
+    return redactor;
+}
+
+function isSampledIn(sampleRate: number | undefined): boolean {
+    return sampleRate === undefined || sampleRate >= 1 || Math.random() < sampleRate;
 }
 
 export interface RequestLogData {
@@ -23,9 +78,103 @@ export interface RequestLogData {
     error?: Error;
 }
 
+// tRPC reports procedure errors as a failed result from next() instead of throwing
+function getResultError(result: any): unknown {
+    return result && result.ok === false ? result.error : undefined;
+}
+
+export interface RequestIdConfig {
+    // Request headers checked in order for an incoming id
+    headers: string[];
+    // Creates an id when no header carries a usable one
+    generateId: () => string;
+    // Response header the id is echoed in, not echoed unless specified
+    responseHeader?: string;
+}
+
+// Incoming ids are ignored unless they look like an id, so headers can't inject arbitrary text into logs
+const REQUEST_ID_PATTERN = /^[\w.:+/=-]{1,128}$/;
+
+function readHeader(headers: any, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    const value = typeof headers.get === 'function' ? headers.get(name) : headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value ?? undefined;
+}
+
+/**
+ * Read the first usable request id from the given headers.
+ * Accepts a Node IncomingHttpHeaders object or a fetch Headers instance, and takes the trace id from a traceparent.
+ */
+export function readRequestId(headers: any, names: string[]): string | undefined {
+    for (const name of names) {
+        let value = readHeader(headers, name)?.trim();
+        if (value && name.toLowerCase() === 'traceparent') {
+            value = value.split('-')[1];
+        }
+        if (value && REQUEST_ID_PATTERN.test(value)) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Create tRPC middleware that gives every request a correlation id.
+ * The id is read from the request headers or generated, set on ctx.requestId and added to every record
+ * logged during the request, including those from getLogger() and the other logging middlewares.
+ * A traceparent header also becomes the trace context of records when there is no active OpenTelemetry span.
+ *
+ * @example
+ * ```typescript
+ * const procedure = loggedProcedure(t.procedure.use(createRequestIdMiddleware({ responseHeader: 'x-request-id' })), config);
+ * ```
+ */
+export function createRequestIdMiddleware(
+    config: Partial<RequestIdConfig> = {}
+) {
+    const defaultConfig: RequestIdConfig = {
+        headers: ['x-request-id', 'x-correlation-id', 'traceparent'],
+        generateId: randomUUID
+    };
+
+    const finalConfig = { ...defaultConfig, ...config };
+
+    return async (opts: any) => {
+        const requestId = opts.ctx?.requestId
+            ?? readRequestId(opts.ctx?.req?.headers, finalConfig.headers)
+            ?? finalConfig.generateId();
+
+        if (finalConfig.responseHeader) {
+            if (opts.ctx?.resHeaders) {
+                opts.ctx.resHeaders.set(finalConfig.responseHeader, requestId);
+            } else if (opts.ctx?.res && !opts.ctx.res.headersSent) {
+                opts.ctx.res.setHeader(finalConfig.responseHeader, requestId);
+            }
+        }
+
+        const current = getRequestContext();
+        const context = {
+            ...current,
+            logger: current?.logger ?? opts.ctx?.logger ?? getLogger(),
+            requestId,
+            trace: parseTraceparent(readHeader(opts.ctx?.req?.headers, 'traceparent')) ?? current?.trace
+        };
+
+        return runWithRequestContext(context, () => opts.next({
+            ctx: {
+                ...opts.ctx,
+                requestId
+            }
+        }));
+    };
+}
+
 /**
  * Create tRPC middleware for automatic request/response logging
  * Uses the existing logger from context injected by .withLogger()
+ * Procedures can override the config with `.meta({ logging: { includeBody: false } })`, or turn it off with `enabled: false`
  */
 export function createLoggingMiddleware(
     config: Partial<MiddlewareConfig> = {}
@@ -36,7 +185,7 @@ export function createLoggingMiddleware(
         logErrors: true,
         includeHeaders: false,
         includeBody: true,
-        maskSensitiveFields: ['password', 'token', 'secret', 'key'],
+        maskSensitiveFields: ['password', 'token', 'secret', 'key', /api[-_]?key|authorization|cookie/i],
         performanceMonitoring: false,
         slowQueryThreshold: 1000
     };
@@ -45,10 +194,16 @@ export function createLoggingMiddleware(
 
     return async (opts: any) => {
         const logger = opts.ctx.logger;
-        if (!logger) {
+        const overrides = getProcedureLogging(opts);
+        if (!logger || overrides.enabled === false) {
             return opts.next();
         }
 
+        const procedureConfig = { ...finalConfig, ...overrides };
+        const levels = { request: 'info', response: 'info', slow: 'warn', error: 'error', ...finalConfig.levels, ...overrides.levels } as const;
+        const maskSensitiveData = getMaskRedactor(procedureConfig.maskSensitiveFields);
+        const sampled = isSampledIn(procedureConfig.sampleRate);
+
         const startTime = Date.now();
         const requestData: RequestLogData = {
             method: opts.type || 'unknown',
@@ -57,65 +212,73 @@ export function createLoggingMiddleware(
         };
 
         // Log request
-        if (finalConfig.logRequests) {
+        if (procedureConfig.logRequests && sampled) {
             const logData: any = {
                 method: requestData.method,
                 path: requestData.path,
+                requestId: opts.ctx.requestId,
                 timestamp: requestData.timestamp
             };
 
-            if (finalConfig.includeHeaders && opts.ctx?.req?.headers) {
-                logData.headers = maskSensitiveData(opts.ctx.req.headers, finalConfig.maskSensitiveFields);
+            if (procedureConfig.includeHeaders && opts.ctx?.req?.headers) {
+                logData.headers = maskSensitiveData(opts.ctx.req.headers);
             }
 
-            if (finalConfig.includeBody && opts.input) {
-                logData.body = maskSensitiveData(opts.input, finalConfig.maskSensitiveFields);
+            if (procedureConfig.includeBody && opts.input) {
+                logData.body = maskSensitiveData(redactSensitiveInput(opts.input));
             }
 
-            logger.info('Request started', logData);
+            logger[levels.request]('Request started', logData);
         }
 
+        const logFailure = (error: unknown) => {
+            if (procedureConfig.logErrors) {
+                logger[levels.error]('Request failed', {
+                    method: requestData.method,
+                    path: requestData.path,
+                    requestId: opts.ctx.requestId,
+                    duration: Date.now() - startTime,
+                    error: serializeError(error),
+                    statusCode: 500
+                });
+            }
+        };
+
         try {
             const result = await opts.next();
             const duration = Date.now() - startTime;
 
+            const resultError = getResultError(result);
+            if (resultError) {
+                logFailure(resultError);
+                return result;
+            }
+
             // Log response
-            if (finalConfig.logResponses) {
+            const isSlow = procedureConfig.performanceMonitoring && duration > procedureConfig.slowQueryThreshold;
+            if (procedureConfig.logResponses && (sampled || isSlow)) {
                 const logData: any = {
                     method: requestData.method,
                     path: requestData.path,
+                    requestId: opts.ctx.requestId,
                     duration,
                     statusCode: 200
                 };
 
-                if (finalConfig.includeBody) {
+                if (procedureConfig.includeBody) {
                     logData.response = result;
                 }
 
-                if (finalConfig.performanceMonitoring && duration > finalConfig.slowQueryThreshold) {
-                    logger.warn('Slow query detected', logData);
+                if (isSlow) {
+                    logger[levels.slow]('Slow query detected', logData);
                 } else {
-                    logger.info('Request completed', logData);
+                    logger[levels.response]('Request completed', logData);
                 }
             }
 
             return result;
         } catch (error) {
-            const duration = Date.now() - startTime;
-            const errorObj = error as Error;
-
-            // Log error
-            if (finalConfig.logErrors) {
-                logger.error('Request failed', {
-                    method: requestData.method,
-                    path: requestData.path,
-                    duration,
-                    error: errorObj.message,
-                    stack: errorObj.stack,
-                    statusCode: 500
-                });
-            }
-
+            logFailure(error);
             throw error;
         }
     };
@@ -140,42 +303,49 @@ export function createErrorHandlingMiddleware(
 ) {
     return async (opts: any) => {
         const logger = opts.ctx.logger;
-        if (!logger) {
+        const overrides = getProcedureLogging(opts);
+        if (!logger || overrides.enabled === false || overrides.logErrors === false) {
             return opts.next();
         }
 
-        try {
-            return await opts.next();
-        } catch (error) {
-            const errorObj = error as Error;
-            const errorName = errorObj.constructor.name;
+        const logFailure = (error: unknown) => {
+            const fields = error instanceof Error ? error as ErrorFields : undefined;
+            const errorName = fields ? fields.constructor.name : typeof error;
+            const code = fields?.code;
+            // tRPC wraps input validation failures in a BAD_REQUEST TRPCError
+            const isValidationError = errorName === 'ZodError' || (fields?.cause instanceof Error && fields.cause.name === 'ZodError');
 
             // Determine if we should log this error
             let shouldLog = config.logAllErrors;
 
-            if (errorName === 'ZodError' && !config.logValidationErrors) {
+            if (isValidationError && !config.logValidationErrors) {
                 shouldLog = false;
             }
 
-            if ((errorName === 'TRPCError' && (error as any).code === 'UNAUTHORIZED') && !config.logAuthErrors) {
+            if ((errorName === 'TRPCError' && code === 'UNAUTHORIZED') && !config.logAuthErrors) {
                 shouldLog = false;
             }
 
             if (shouldLog) {
-                const logData: any = {
-                    error: errorObj.message,
+                logger[overrides.levels?.error ?? 'error']('Procedure error', {
+                    error: serializeError(error, { includeStack: config.includeStack }),
                     type: errorName,
                     path: opts.path,
-                    method: opts.type
-                };
-
-                if (config.includeStack) {
-                    logData.stack = errorObj.stack;
-                }
-
-                logger.error('Procedure error', logData);
+                    method: opts.type,
+                    requestId: opts.ctx.requestId
+                });
             }
+        };
 
+        try {
+            const result = await opts.next();
+            const resultError = getResultError(result);
+            if (resultError) {
+                logFailure(resultError);
+            }
+            return result;
+        } catch (error) {
+            logFailure(error);
             throw error;
         }
     };
@@ -219,12 +389,15 @@ export function createRateLimitingMiddleware(
         } else {
             current.count++;
             if (current.count > config.maxRequests) {
-                logger.warn('Rate limit exceeded', {
-                    key,
-                    count: current.count,
-                    maxRequests: config.maxRequests,
-                    path: opts.path
-                });
+                // The limit still applies to procedures with logging turned off
+                if (getProcedureLogging(opts).enabled !== false) {
+                    logger.warn('Rate limit exceeded', {
+                        key,
+                        count: current.count,
+                        maxRequests: config.maxRequests,
+                        path: opts.path
+                    });
+                }
                 throw new Error('Rate limit exceeded');
             }
         }
@@ -240,7 +413,7 @@ export function createRateLimitingMiddleware(
 export function createAuthLoggingMiddleware() {
     return async (opts: any) => {
         const logger = opts.ctx.logger;
-        if (!logger) {
+        if (!logger || getProcedureLogging(opts).enabled === false) {
             return opts.next();
         }
 
@@ -266,7 +439,9 @@ export function createAuthLoggingMiddleware() {
 
 /**
  * Create tRPC middleware for performance monitoring
- * Uses the existing logger from context
+ * Procedures can leave the input out of its records with `.meta({ logging: { includeBody: false } })`
+ * Uses the existing logger from context. With `createSpans`, each procedure also runs in an OpenTelemetry
+ * child span when `@opentelemetry/api` is installed, so its records carry that span's ids.
  */
 export function createPerformanceMiddleware(
     config: {
@@ -274,6 +449,7 @@ export function createPerformanceMiddleware(
         logSlowQueries: boolean;
         slowQueryThreshold: number;
         logMemoryUsage: boolean;
+        createSpans?: boolean;
     } = {
             enabled: true,
             logSlowQueries: true,
@@ -281,34 +457,57 @@ export function createPerformanceMiddleware(
             logMemoryUsage: false
         }
 ) {
-    return async (opts: any) => {
+    const monitor = async (opts: any) => {
         const logger = opts.ctx.logger;
-        if (!logger || !config.enabled) {
+        const overrides = getProcedureLogging(opts);
+        if (!logger || !config.enabled || overrides.enabled === false) {
             return opts.next();
         }
 
+        const slowQueryThreshold = overrides.slowQueryThreshold ?? config.slowQueryThreshold;
+        const levels = { response: 'debug', slow: 'warn', error: 'error', ...overrides.levels } as const;
         const startTime = Date.now();
         const procedureName = opts.path || 'unknown';
-        const input = opts.input;
+        // Procedures can leave the input out of these records or mask more of it
+        let input = overrides.includeBody === false ? undefined : redactSensitiveInput(opts.input);
+        if (input !== undefined && overrides.maskSensitiveFields) {
+            input = getMaskRedactor(overrides.maskSensitiveFields)(input);
+        }
 
         let memoryUsage: any = undefined;
         if (config.logMemoryUsage) {
             memoryUsage = process.memoryUsage();
         }
 
+        const logFailure = (error: unknown) => {
+            logger[levels.error]('Procedure failed', {
+                procedure: procedureName,
+                duration: Date.now() - startTime,
+                error: serializeError(error),
+                input,
+                memoryUsage
+            });
+        };
+
         try {
             const result = await opts.next();
             const duration = Date.now() - startTime;
 
-            if (config.logSlowQueries && duration > config.slowQueryThreshold) {
-                logger.warn('Slow query detected', {
+            const resultError = getResultError(result);
+            if (resultError) {
+                logFailure(resultError);
+                return result;
+            }
+
+            if (config.logSlowQueries && duration > slowQueryThreshold) {
+                logger[levels.slow]('Slow query detected', {
                     procedure: procedureName,
                     duration,
                     input,
                     memoryUsage
                 });
-            } else {
-                logger.debug('Procedure completed', {
+            } else if (isSampledIn(overrides.sampleRate)) {
+                logger[levels.response]('Procedure completed', {
                     procedure: procedureName,
                     duration,
                     memoryUsage
@@ -317,41 +516,50 @@ export function createPerformanceMiddleware(
 
             return result;
         } catch (error) {
-            const duration = Date.now() - startTime;
-
-            logger.error('Procedure failed', {
-                procedure: procedureName,
-                duration,
-                error: error instanceof Error ? error.message : 'Unknown error',
-                input,
-                memoryUsage
-            });
-
+            logFailure(error);
             throw error;
         }
     };
-}
 
-/**
- * Utility function to mask sensitive data
- */
-function maskSensitiveData(data: any, sensitiveFields: string[]): any {
-    if (!data || typeof data !== 'object') {
-        return data;
-    }
-
-    if (Array.isArray(data)) {
-        return data.map(item => maskSensitiveData(item, sensitiveFields));
-    }
-
-    const masked = { ...data };
-    for (const field of sensitiveFields) {
-        if (field in masked) {
-            masked[field] = '[MASKED]';
+    return async (opts: any) => {
+        const api = config.createSpans ? loadOpenTelemetry() : undefined;
+        if (!api) {
+            return monitor(opts);
         }
-    }
 
-    return masked;
+        const tracer = api.trace.getTracer('trpc-logger');
+        return tracer.startActiveSpan(opts.path || 'unknown', {
+            attributes: {
+                'rpc.system': 'trpc',
+                'rpc.method': opts.path || 'unknown',
+                'trpc.type': opts.type || 'unknown'
+            }
+        }, async span => {
+            const fail = (error: unknown) => {
+                if (error instanceof Error) {
+                    span.recordException(error);
+                }
+                span.setStatus({
+                    code: api.SpanStatusCode.ERROR,
+                    message: error instanceof Error ? error.message : undefined
+                });
+            };
+
+            try {
+                const result = await monitor(opts);
+                // tRPC reports procedure errors as a failed result instead of throwing
+                if (result && result.ok === false) {
+                    fail(result.error);
+                }
+                return result;
+            } catch (error) {
+                fail(error);
+                throw error;
+            } finally {
+                span.end();
+            }
+        });
+    };
 }
 
 /**
@@ -359,18 +567,19 @@ function maskSensitiveData(data: any, sensitiveFields: string[]): any {
  */
 export function combineMiddlewares(...middlewares: Array<(opts: any) => Promise<any>>) {
     return async (opts: any) => {
-        let currentOpts = opts;
-
-        for (const middleware of middlewares) {
-            currentOpts = {
-                ...currentOpts,
-                next: async () => {
-                    return middleware(currentOpts);
-                }
-            };
-        }
+        // Each middleware's next() runs the following one, and the last one continues the procedure
+        const run = (index: number, ctx: any): Promise<any> => {
+            if (index === middlewares.length) {
+                return ctx === opts.ctx ? opts.next() : opts.next({ ctx });
+            }
+            return middlewares[index]({
+                ...opts,
+                ctx,
+                next: (nextOpts?: { ctx?: any }) => run(index + 1, nextOpts?.ctx ? { ...ctx, ...nextOpts.ctx } : ctx)
+            });
+        };
 
-        return currentOpts.next();
+        return run(0, opts.ctx);
     };
 }
 
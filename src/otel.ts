@@ -0,0 +1,18 @@
+import type * as OpenTelemetryApi from '@opentelemetry/api';
+
+// Loaded on first use, null once we know the optional peer dependency isn't installed
+let api: typeof OpenTelemetryApi | null | undefined;
+
+/**
+ * Load `@opentelemetry/api` if the application installed it
+ */
+export function loadOpenTelemetry(): typeof OpenTelemetryApi | undefined {
+    if (api === undefined) {
+        try {
+            api = require('@opentelemetry/api');
+        } catch {
+            api = null;
+        }
+    }
+    return api ?? undefined;
+}
@@ -1,4 +1,6 @@
 import type { Logger } from './index';
+import { getRequestContext } from './context';
+import { redactSensitiveInput } from './sensitive';
 
 export interface PerformanceMetrics {
     startTime: number;
@@ -6,6 +8,8 @@ export interface PerformanceMetrics {
     duration?: number;
     memoryUsage?: NodeJS.MemoryUsage & { diff?: NodeJS.MemoryUsage };
     procedureName: string;
+    // Correlation id of the request being measured
+    requestId?: string;
     input?: any;
     output?: any;
     error?: Error;
@@ -46,7 +50,8 @@ export class PerformanceMonitor {
         const metrics: PerformanceMetrics = {
             startTime: Date.now(),
             procedureName,
-            input: this.config.logInputOutput ? input : undefined
+            requestId: getRequestContext()?.requestId,
+            input: this.config.logInputOutput ? redactSensitiveInput(input) : undefined
         };
 
         if (this.config.logMemoryUsage) {
@@ -83,10 +88,11 @@ export class PerformanceMonitor {
     }
 
     private logPerformance(metrics: PerformanceMetrics): void {
-        const { procedureName, duration, memoryUsage, input, output, error } = metrics;
+        const { procedureName, requestId, duration, memoryUsage, input, output, error } = metrics;
 
         if (error) {
             this.logger.error(`Procedure ${procedureName} failed`, {
+                requestId,
                 duration,
                 error: error.message,
                 stack: error.stack,
@@ -100,6 +106,7 @@ export class PerformanceMonitor {
         const message = `Procedure ${procedureName} completed`;
 
         this.logger[logLevel](message, {
+            requestId,
             duration,
             input,
             output,
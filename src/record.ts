@@ -0,0 +1,122 @@
+import type { LogLevel } from './levels';
+
+// A single log call, as seen by record formats and transports
+export interface LogRecord {
+    level: LogLevel;
+    // Numeric severity from LOG_LEVEL_SEVERITY
+    severity: number;
+    timestamp: Date;
+    // Logger name given to withLogger or createLogger
+    name?: string;
+    // tRPC procedure path of the current request
+    path?: string;
+    // tRPC procedure type of the current request: 'query', 'mutation' or 'subscription'
+    type?: string;
+    message: string;
+    meta?: Record<string, any>;
+    // Error taken from `meta.error` or `meta.err`, which hold its serialized form
+    error?: Error;
+    requestId?: string;
+    // Name and code of the catalog event logged with logger.event(), see defineLogEvents
+    event?: string;
+    eventCode?: string;
+    // W3C trace context of the active span or incoming traceparent, see getTraceContext
+    traceId?: string;
+    spanId?: string;
+    traceFlags?: number;
+    // Fraction of similar records kept by the pipeline's sampling, set only on sampled pipelines
+    sampleRate?: number;
+    // Number of identical records collapsed into this one by the pipeline's dedupe stage
+    repeated?: number;
+    // Number of PII matches the pipeline's scrub stage replaced, set only on scrubbed pipelines
+    redactions?: number;
+}
+
+// Optional lifecycle methods a transport function can carry
+export interface TransportLifecycle {
+    // Resolve once every record accepted so far has been delivered
+    flush?: () => void | Promise<void>;
+    // Flush and release resources, records logged afterwards are rejected
+    close?: () => void | Promise<void>;
+}
+
+// Three-argument signatures from the original pipeline contract
+export type LegacyLogFormat = (name: string | undefined, message: string, meta?: Record<string, any>) => string;
+export type LegacyLogTransport = ((name: string | undefined, message: string, meta?: Record<string, any>) => void) & TransportLifecycle;
+
+const RECORD_API: unique symbol = Symbol.for('trpc-logger.record-api');
+
+// Record-based format, created with defineFormat
+export type RecordFormat = ((record: LogRecord) => string) & { readonly [RECORD_API]: true };
+
+// Record-based transport, created with defineTransport. `formatted` is the output of the pipeline's format
+// Returning a promise lets the pipeline catch asynchronous delivery failures
+export type RecordTransport = ((record: LogRecord, formatted: string) => void | Promise<void>)
+    & TransportLifecycle
+    & { readonly [RECORD_API]: true };
+
+export type LogFormat = LegacyLogFormat | RecordFormat;
+export type LogTransport = LegacyLogTransport | RecordTransport;
+
+/**
+ * Mark a function as a record-based format
+ *
+ * @example
+ * ```typescript
+ * const levelFormat = defineFormat(record => `${record.level} ${record.path} ${record.message}`);
+ * ```
+ */
+export function defineFormat(format: (record: LogRecord) => string): RecordFormat {
+    return Object.assign(format, { [RECORD_API]: true as const });
+}
+
+/**
+ * Mark a function as a record-based transport, optionally with flush/close lifecycle methods
+ *
+ * @example
+ * ```typescript
+ * const stderrTransport = defineTransport((record, formatted) => {
+ *   if (record.severity >= LOG_LEVEL_SEVERITY.error) process.stderr.write(formatted + '\n');
+ * });
+ * ```
+ */
+export function defineTransport(
+    transport: (record: LogRecord, formatted: string) => void | Promise<void>,
+    lifecycle: TransportLifecycle = {}
+): RecordTransport {
+    return Object.assign(transport, lifecycle, { [RECORD_API]: true as const });
+}
+
+export function isRecordFormat(format: LogFormat): format is RecordFormat {
+    return RECORD_API in format && format[RECORD_API] === true;
+}
+
+export function isRecordTransport(transport: LogTransport): transport is RecordTransport {
+    return RECORD_API in transport && transport[RECORD_API] === true;
+}
+
+/**
+ * Adapt any format to the record-based signature
+ */
+export function toRecordFormat(format: LogFormat): (record: LogRecord) => string {
+    if (isRecordFormat(format)) {
+        return format;
+    }
+    return record => format(record.name, record.message, record.meta);
+}
+
+/**
+ * Adapt any transport to the record-based signature
+ */
+export function toRecordTransport(transport: LogTransport): (record: LogRecord, formatted: string) => void | Promise<void> {
+    if (isRecordTransport(transport)) {
+        return transport;
+    }
+    // Legacy transports may still return a promise at runtime
+    return (record, formatted) => transport(record.name, formatted, record.meta) as void | Promise<void>;
+}
+
+/**
+ * Default format used by pipelines without one
+ */
+export const defaultFormat = defineFormat(record => `[${record.level.toUpperCase()}] [${record.name}] ${record.message}`);
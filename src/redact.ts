@@ -0,0 +1,183 @@
+import { isTraversable } from './traverse';
+
+// A path like 'user.password', '*.token', 'items[*].card.number' or '**.secret', or a pattern tested on key names
+export type RedactRule = string | RegExp;
+
+export interface RedactConfig {
+    // Paths to redact. A plain key such as 'password' matches that key at any depth
+    paths: RedactRule[];
+    // Replacement value, or a function of the value and its path, '[REDACTED]' unless specified
+    censor?: string | ((value: unknown, path: string[]) => unknown);
+    // Delete matching keys instead of censoring them
+    remove?: boolean;
+    // Match key names case-sensitively, false unless specified
+    caseSensitive?: boolean;
+}
+
+// Returns a redacted copy of a value, leaving the value itself untouched
+export type Redactor = <T>(value: T) => T;
+
+type Segment =
+    | { type: 'key'; key: string }
+    | { type: 'regex'; pattern: RegExp }
+    // '*' or '[*]', any single key or index
+    | { type: 'any' }
+    // '**', any number of keys, including none
+    | { type: 'deep' };
+
+// Position reached in one compiled path
+interface PathState {
+    segments: Segment[];
+    index: number;
+}
+
+const PATH_TOKEN = /\[(\*|\d+|"[^"]*"|'[^']*')\]|([^.[\]]+)|(\.)/g;
+
+function parsePath(path: string, caseSensitive: boolean): Segment[] {
+    const segments: Segment[] = [];
+    let consumed = 0;
+    let match: RegExpExecArray | null;
+
+    PATH_TOKEN.lastIndex = 0;
+    while ((match = PATH_TOKEN.exec(path)) !== null) {
+        if (match.index !== consumed) {
+            break;
+        }
+        consumed += match[0].length;
+
+        const [, bracket, key] = match;
+        const token = bracket !== undefined ? bracket.replace(/^["']|["']$/g, '') : key;
+        if (token === undefined) {
+            continue;
+        }
+        if (token === '**' && bracket === undefined) {
+            segments.push({ type: 'deep' });
+        } else if (token === '*' && (bracket === '*' || key === '*')) {
+            segments.push({ type: 'any' });
+        } else {
+            segments.push({ type: 'key', key: caseSensitive ? token : token.toLowerCase() });
+        }
+    }
+
+    if (consumed !== path.length || segments.length === 0) {
+        throw new Error(`Invalid redact path "${path}"`);
+    }
+
+    // A single plain key matches at any depth
+    if (segments.length === 1 && segments[0].type === 'key') {
+        segments.unshift({ type: 'deep' });
+    }
+    return segments;
+}
+
+// Adds a state and every state reachable from it by letting a '**' match nothing
+function addState(states: PathState[], segments: Segment[], index: number): void {
+    states.push({ segments, index });
+    if (segments[index]?.type === 'deep') {
+        addState(states, segments, index + 1);
+    }
+}
+
+function matchesSegment(segment: Segment, key: string, normalizedKey: string): boolean {
+    switch (segment.type) {
+        case 'key':
+            return segment.key === normalizedKey;
+        case 'regex':
+            segment.pattern.lastIndex = 0;
+            return segment.pattern.test(key);
+        default:
+            return true;
+    }
+}
+
+/**
+ * Compile redaction rules into a function that returns redacted copies of values.
+ * Only plain objects and arrays are walked, and objects are copied only where something was redacted.
+ *
+ * @param config - Paths to redact and how to redact them
+ * @returns A redactor for meta, headers or any other value
+ *
+ * @example
+ * ```typescript
+ * const redact = createRedactor({ paths: ['password', 'headers.authorization', 'items[*].card.number', /^api[-_]?key$/i] });
+ * redact({ user: { password: 'hunter2' } }); // { user: { password: '[REDACTED]' } }
+ * ```
+ */
+export function createRedactor(config: RedactConfig): Redactor {
+    const { censor = '[REDACTED]', remove = false, caseSensitive = false } = config;
+
+    const initial: PathState[] = [];
+    for (const rule of config.paths) {
+        const segments: Segment[] = typeof rule === 'string'
+            ? parsePath(rule, caseSensitive)
+            : [{ type: 'deep' }, { type: 'regex', pattern: rule }];
+        addState(initial, segments, 0);
+    }
+
+    const censorValue = (value: unknown, path: string[]) =>
+        typeof censor === 'function' ? censor(value, path) : censor;
+
+    const walk = (value: unknown, states: PathState[], path: string[], ancestors: unknown[]): unknown => {
+        if (states.length === 0 || !isTraversable(value) || ancestors.includes(value)) {
+            return value;
+        }
+
+        ancestors.push(value);
+        let copy: Record<string, unknown> | unknown[] | undefined;
+        const removed: number[] = [];
+        const keys = Object.keys(value);
+
+        for (let i = 0; i < keys.length; i++) {
+            const key = keys[i];
+            const normalizedKey = caseSensitive ? key : key.toLowerCase();
+            const next: PathState[] = [];
+            let matched = false;
+
+            for (const { segments, index } of states) {
+                const segment = segments[index];
+                if (segment.type === 'deep') {
+                    // '**' consumes this key and stays active
+                    addState(next, segments, index);
+                    continue;
+                }
+                if (!matchesSegment(segment, key, normalizedKey)) {
+                    continue;
+                }
+                if (index === segments.length - 1) {
+                    matched = true;
+                } else {
+                    addState(next, segments, index + 1);
+                }
+            }
+
+            const child = (value as any)[key];
+            let replacement: unknown;
+            if (matched) {
+                replacement = censorValue(child, [...path, key]);
+            } else {
+                replacement = walk(child, next, [...path, key], ancestors);
+            }
+
+            if (matched || replacement !== child) {
+                copy = copy ?? (Array.isArray(value) ? [...value] : { ...value });
+                if (matched && remove) {
+                    if (Array.isArray(copy)) {
+                        removed.push(Number(key));
+                    } else {
+                        delete copy[key];
+                    }
+                } else {
+                    (copy as any)[key] = replacement;
+                }
+            }
+        }
+
+        ancestors.pop();
+        if (Array.isArray(copy) && removed.length > 0) {
+            return copy.filter((_item, index) => !removed.includes(index));
+        }
+        return copy ?? value;
+    };
+
+    return <T>(value: T): T => walk(value, initial, [], []) as T;
+}
@@ -0,0 +1,133 @@
+import { LOG_LEVEL_SEVERITY, type LogLevel } from './levels';
+import type { LogRecord } from './record';
+
+export interface SamplingRule {
+    // Fraction of records to keep, between 0 and 1
+    rate?: number;
+    // 'requestId' keeps or drops every record of a request together, records without one fall back to random
+    by?: 'random' | 'requestId';
+    // Maximum records per second for each key. Kept records carry the previous second's kept share, see createSampler
+    perSecond?: number;
+    // Key for perSecond: 'message' (logger name and message, the default), 'name' (per-procedure budget) or a function
+    key?: 'message' | 'name' | ((record: LogRecord) => string);
+}
+
+export interface SamplingConfig extends SamplingRule {
+    // Rules for specific levels, replacing the base rule. `false` disables sampling for that level
+    levels?: Partial<Record<LogLevel, SamplingRule | false>>;
+    // Records at or above this level are never sampled out, 'error' unless specified. `false` samples every level
+    alwaysKeep?: LogLevel | false;
+    // Maximum number of perSecond keys tracked at once
+    maxKeys?: number;
+}
+
+// Returns the sample rate of a kept record, or undefined if the record was sampled out
+export type Sampler = (record: LogRecord) => number | undefined;
+
+interface KeyWindow {
+    window: number;
+    seen: number;
+    kept: number;
+    // kept/seen ratio of the previous window, used as this window's sample rate
+    rate: number;
+}
+
+// FNV-1a hash of a string, mapped to [0, 1)
+function hashToUnit(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+}
+
+function getKey(rule: SamplingRule, record: LogRecord): string {
+    if (typeof rule.key === 'function') {
+        return rule.key(record);
+    }
+    if (rule.key === 'name') {
+        return `${record.name}`;
+    }
+    return `${record.name}:${record.message}`;
+}
+
+/**
+ * Create a sampler for a pipeline's sampling configuration.
+ * Each kept record's sample rate is the fraction of matching records kept, so counts can be scaled by 1 / rate.
+ *
+ * perSecond rates lag one window: a record is kept before the records after it in the same second are seen,
+ * so it carries the share kept in the key's previous second. Records kept in a key's first second, or after
+ * a second without any, carry a rate of 1 even when later records of that second are dropped, and scaled
+ * counts undercount those seconds.
+ */
+export function createSampler(config: SamplingConfig): Sampler {
+    const { alwaysKeep = 'error', maxKeys = 1000 } = config;
+    const windows = new Map<string, KeyWindow>();
+
+    const checkRate = (rule: SamplingRule, record: LogRecord): boolean => {
+        if (rule.rate === undefined || rule.rate >= 1) {
+            return true;
+        }
+        const roll = rule.by === 'requestId' && record.requestId !== undefined
+            ? hashToUnit(record.requestId)
+            : Math.random();
+        return roll < rule.rate;
+    };
+
+    const checkBudget = (rule: SamplingRule, record: LogRecord): number | undefined => {
+        const key = getKey(rule, record);
+        const window = Math.floor(Date.now() / 1000);
+
+        let entry = windows.get(key);
+        if (!entry) {
+            if (windows.size >= maxKeys) {
+                for (const [k, v] of windows.entries()) {
+                    if (v.window < window) {
+                        windows.delete(k);
+                    }
+                }
+            }
+            entry = { window, seen: 0, kept: 0, rate: 1 };
+            windows.set(key, entry);
+        } else if (entry.window !== window) {
+            entry.rate = entry.window === window - 1 && entry.seen > 0 ? entry.kept / entry.seen : 1;
+            entry.window = window;
+            entry.seen = 0;
+            entry.kept = 0;
+        }
+
+        entry.seen++;
+        if (entry.kept >= rule.perSecond!) {
+            return undefined;
+        }
+        entry.kept++;
+        return entry.rate;
+    };
+
+    return (record) => {
+        if (alwaysKeep !== false && record.severity >= LOG_LEVEL_SEVERITY[alwaysKeep]) {
+            return 1;
+        }
+
+        const levelRule = config.levels?.[record.level];
+        if (levelRule === false) {
+            return 1;
+        }
+        const rule = levelRule ?? config;
+
+        if (!checkRate(rule, record)) {
+            return undefined;
+        }
+
+        let sampleRate = rule.rate !== undefined ? Math.min(rule.rate, 1) : 1;
+        if (rule.perSecond !== undefined) {
+            const budgetRate = checkBudget(rule, record);
+            if (budgetRate === undefined) {
+                return undefined;
+            }
+            sampleRate *= budgetRate;
+        }
+        return sampleRate;
+    };
+}
@@ -0,0 +1,156 @@
+import { isIPv6 } from 'net';
+import { isTraversable } from './traverse';
+
+// Built-in detectors for PII found inside free text
+export type PiiDetectorName = 'email' | 'creditCard' | 'iban' | 'phone' | 'ipv4' | 'ipv6' | 'jwt' | 'bearer';
+
+export interface CustomDetector {
+    // Used in the replacement, e.g. '[REDACTED:employeeId]'
+    name: string;
+    pattern: RegExp;
+    // Extra check on each match, e.g. a checksum. Matches it rejects are left alone
+    validate?: (match: string) => boolean;
+}
+
+export interface ScrubConfig {
+    // Detectors to run, every built-in one unless specified
+    detectors?: Array<PiiDetectorName | CustomDetector>;
+    // Replacement text, '[REDACTED:<detector name>]' unless specified
+    replacement?: string | ((detector: string, match: string) => string);
+}
+
+export interface ScrubResult<T> {
+    value: T;
+    // Number of matches replaced
+    redactions: number;
+}
+
+// Returns a scrubbed copy of a string, or of every string inside plain objects and arrays
+export type Scrubber = <T>(value: T) => ScrubResult<T>;
+
+function passesLuhn(match: string): boolean {
+    const digits = match.replace(/\D/g, '');
+    if (digits.length < 13 || digits.length > 19) {
+        return false;
+    }
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+function passesIbanChecksum(match: string): boolean {
+    const iban = match.replace(/\s/g, '');
+    const rearranged = iban.slice(4) + iban.slice(0, 4);
+    let remainder = 0;
+    for (const char of rearranged) {
+        const value = parseInt(char, 36);
+        // Letters count as two digits, A = 10
+        remainder = value > 9 ? (remainder * 100 + value) % 97 : (remainder * 10 + value) % 97;
+    }
+    return remainder === 1;
+}
+
+// Ordered so tokens are removed before the digit runs inside them can look like cards or phone numbers
+const BUILT_IN_DETECTORS: Record<PiiDetectorName, CustomDetector> = {
+    jwt: { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+    bearer: { name: 'bearer', pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/gi },
+    email: { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+    creditCard: { name: 'creditCard', pattern: /\b\d(?:[ -]?\d){12,18}\b/g, validate: passesLuhn },
+    iban: { name: 'iban', pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g, validate: passesIbanChecksum },
+    ipv6: {
+        name: 'ipv6',
+        pattern: /(?<![\w:])(?:[0-9A-Fa-f]{0,4}:){2,7}[0-9A-Fa-f]{0,4}(?![\w:])/g,
+        validate: match => isIPv6(match)
+    },
+    ipv4: { name: 'ipv4', pattern: /\b(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)\b/g },
+    phone: {
+        name: 'phone',
+        // Not part of a longer run of digit groups, such as a card number that failed Luhn
+        pattern: /(?<![\w+]|\d[\s.-])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b(?![\s.-]?\d)/g,
+        // Bare digit runs are more often ids than phone numbers
+        validate: match => /^\+|[\s.()-]/.test(match) && match.replace(/\D/g, '').length >= 9
+    }
+};
+
+const ALL_DETECTORS = Object.keys(BUILT_IN_DETECTORS) as PiiDetectorName[];
+
+/**
+ * Create a scrubber that replaces PII found inside strings: email addresses, Luhn-valid card numbers,
+ * IBANs, phone numbers, IPv4/IPv6 addresses, JWTs and bearer tokens, plus any custom detectors
+ *
+ * @param config - Detectors to run and the replacement text
+ * @returns A scrubber for strings, or objects and arrays containing strings
+ *
+ * @example
+ * ```typescript
+ * const scrub = createScrubber({ detectors: ['email', 'creditCard', { name: 'ticket', pattern: /TCK-\d+/g }] });
+ * scrub('Refund 4111 1111 1111 1111 for ada@example.com');
+ * // { value: 'Refund [REDACTED:creditCard] for [REDACTED:email]', redactions: 2 }
+ * ```
+ */
+export function createScrubber(config: ScrubConfig = {}): Scrubber {
+    const { detectors = ALL_DETECTORS, replacement } = config;
+
+    const compiled = detectors.map(detector => {
+        const resolved = typeof detector === 'string' ? BUILT_IN_DETECTORS[detector] : detector;
+        if (!resolved) {
+            throw new Error(`Unknown PII detector "${detector}"`);
+        }
+        const { name, pattern, validate } = resolved;
+        const global = pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+        return { name, pattern: global, validate };
+    });
+
+    const scrubString = (text: string, counter: { redactions: number }) => {
+        let result = text;
+        for (const { name, pattern, validate } of compiled) {
+            result = result.replace(pattern, match => {
+                if (validate && !validate(match)) {
+                    return match;
+                }
+                counter.redactions++;
+                if (typeof replacement === 'function') {
+                    return replacement(name, match);
+                }
+                return replacement ?? `[REDACTED:${name}]`;
+            });
+        }
+        return result;
+    };
+
+    const walk = (value: unknown, counter: { redactions: number }, ancestors: unknown[]): unknown => {
+        if (typeof value === 'string') {
+            return scrubString(value, counter);
+        }
+        if (!isTraversable(value) || ancestors.includes(value)) {
+            return value;
+        }
+
+        ancestors.push(value);
+        let copy: Record<string, unknown> | unknown[] | undefined;
+        for (const key of Object.keys(value)) {
+            const child = (value as any)[key];
+            const scrubbed = walk(child, counter, ancestors);
+            if (scrubbed !== child) {
+                copy = copy ?? (Array.isArray(value) ? [...value] : { ...value });
+                (copy as any)[key] = scrubbed;
+            }
+        }
+        ancestors.pop();
+        return copy ?? value;
+    };
+
+    return <T>(value: T): ScrubResult<T> => {
+        const counter = { redactions: 0 };
+        return { value: walk(value, counter, []) as T, redactions: counter.redactions };
+    };
+}
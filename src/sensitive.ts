@@ -0,0 +1,162 @@
+import { ZodFirstPartyTypeKind, type ZodTypeAny } from 'zod';
+import { getRequestContext } from './context';
+import { createRedactor, type Redactor } from './redact';
+
+// Marks a zod schema as sensitive when found in its description
+export const SENSITIVE_TAG = '@sensitive';
+
+/**
+ * Tag a zod schema as sensitive, so its values are masked wherever procedure input is logged.
+ * The tag is kept in the description, so `.describe('@sensitive')` works the same way.
+ *
+ * @param schema - Any zod schema
+ * @returns The schema with the sensitive tag added to its description
+ *
+ * @example
+ * ```typescript
+ * const input = z.object({
+ *   email: z.string().email(),
+ *   password: sensitive(z.string().min(8)),
+ *   card: z.object({ number: z.string().describe('Card number @sensitive') }).optional()
+ * });
+ * ```
+ */
+export function sensitive<T extends ZodTypeAny>(schema: T): T {
+    if (isSensitive(schema)) {
+        return schema;
+    }
+    return schema.describe(schema.description ? `${schema.description} ${SENSITIVE_TAG}` : SENSITIVE_TAG);
+}
+
+/**
+ * Whether a zod schema was tagged with sensitive() or a description containing '@sensitive'
+ */
+export function isSensitive(schema: ZodTypeAny): boolean {
+    return schema.description?.includes(SENSITIVE_TAG) ?? false;
+}
+
+function isZodSchema(value: unknown): value is ZodTypeAny {
+    return typeof (value as any)?._def?.typeName === 'string';
+}
+
+function appendKey(path: string, key: string): string {
+    if (/^[A-Za-z_$][\w$]*$/.test(key)) {
+        return path ? `${path}.${key}` : key;
+    }
+    return `${path}["${key}"]`;
+}
+
+function collectPaths(schema: ZodTypeAny, path: string, paths: Set<string>, visiting: ZodTypeAny[]): void {
+    if (isSensitive(schema)) {
+        paths.add(path);
+        return;
+    }
+    // z.lazy schemas can refer to themselves
+    if (visiting.includes(schema)) {
+        return;
+    }
+    visiting.push(schema);
+
+    const def = schema._def;
+    const visit = (child: ZodTypeAny, childPath = path) => collectPaths(child, childPath, paths, visiting);
+
+    switch (def.typeName) {
+        case ZodFirstPartyTypeKind.ZodObject:
+            for (const [key, child] of Object.entries<ZodTypeAny>(def.shape())) {
+                visit(child, appendKey(path, key));
+            }
+            break;
+        case ZodFirstPartyTypeKind.ZodArray:
+            visit(def.type, `${path}[*]`);
+            break;
+        case ZodFirstPartyTypeKind.ZodTuple:
+            def.items.forEach((item: ZodTypeAny, index: number) => visit(item, `${path}[${index}]`));
+            if (def.rest) {
+                visit(def.rest, `${path}[*]`);
+            }
+            break;
+        case ZodFirstPartyTypeKind.ZodRecord:
+            visit(def.valueType, path ? `${path}.*` : '*');
+            break;
+        // Every option is walked, so a field tagged in any branch is masked whichever branch matched
+        case ZodFirstPartyTypeKind.ZodUnion:
+        case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+            for (const option of def.options) {
+                visit(option);
+            }
+            break;
+        case ZodFirstPartyTypeKind.ZodIntersection:
+            visit(def.left);
+            visit(def.right);
+            break;
+        case ZodFirstPartyTypeKind.ZodOptional:
+        case ZodFirstPartyTypeKind.ZodNullable:
+        case ZodFirstPartyTypeKind.ZodDefault:
+        case ZodFirstPartyTypeKind.ZodCatch:
+        case ZodFirstPartyTypeKind.ZodReadonly:
+            visit(def.innerType);
+            break;
+        case ZodFirstPartyTypeKind.ZodEffects:
+            visit(def.schema);
+            break;
+        case ZodFirstPartyTypeKind.ZodBranded:
+            visit(def.type);
+            break;
+        case ZodFirstPartyTypeKind.ZodPipeline:
+            visit(def.in);
+            break;
+        case ZodFirstPartyTypeKind.ZodLazy:
+            visit(def.getter());
+            break;
+    }
+
+    visiting.pop();
+}
+
+/**
+ * List the paths of the fields tagged sensitive in an input parser, in the path syntax of createRedactor.
+ * Parsers that aren't zod schemas have none.
+ *
+ * @param schema - A procedure input parser
+ * @returns Paths such as 'password', 'cards[*].number' or 'payment.card', '' when the whole input is sensitive
+ *
+ * @example
+ * ```typescript
+ * getSensitivePaths(z.object({ user: z.object({ password: sensitive(z.string()) }) })); // ['user.password']
+ * ```
+ */
+export function getSensitivePaths(schema: unknown): string[] {
+    if (!isZodSchema(schema)) {
+        return [];
+    }
+    const paths = new Set<string>();
+    collectPaths(schema, '', paths, []);
+    return [...paths];
+}
+
+// One redactor per procedure, keyed by its joined paths
+const redactors = new Map<string, Redactor>();
+
+/**
+ * Mask the fields tagged sensitive in the input schemas of the current procedure.
+ * Procedure inputs declared on a logged builder are recorded in the request context;
+ * anything else is returned unchanged.
+ *
+ * @param input - The procedure input, usually opts.input
+ * @param censor - Replacement value, '[MASKED]' unless specified
+ */
+export function redactSensitiveInput<T>(input: T, censor = '[MASKED]'): T {
+    const paths = getRequestContext()?.sensitivePaths;
+    if (!paths || paths.length === 0 || input === undefined) {
+        return input;
+    }
+
+    const key = `${censor}\n${paths.join('\n')}`;
+    let redact = redactors.get(key);
+    if (!redact) {
+        // Anchored under a wrapper key, so a top-level field doesn't match the same key at any depth
+        redact = createRedactor({ paths: paths.map(path => path ? `input${path.startsWith('[') ? '' : '.'}${path}` : 'input'), censor, caseSensitive: true });
+        redactors.set(key, redact);
+    }
+    return redact({ input }).input;
+}
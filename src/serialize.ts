@@ -0,0 +1,178 @@
+import { serializeError } from './errors';
+
+export interface SafeSerializeOptions {
+    // Nesting depth before objects and arrays are replaced with a marker, 10 unless specified
+    maxDepth?: number;
+    // Items kept per array, Set, Map or typed array, 100 unless specified
+    maxArrayLength?: number;
+    // Characters kept per string, 10000 unless specified
+    maxStringLength?: number;
+}
+
+let defaults: Required<SafeSerializeOptions> = {
+    maxDepth: 10,
+    maxArrayLength: 100,
+    maxStringLength: 10000
+};
+
+/**
+ * Change the limits used by the built-in formats and transports
+ */
+export function setSerializeOptions(options: SafeSerializeOptions): void {
+    defaults = { ...defaults, ...options };
+}
+
+function truncateString(value: string, options: Required<SafeSerializeOptions>): string {
+    if (value.length <= options.maxStringLength) {
+        return value;
+    }
+    return `${value.slice(0, options.maxStringLength)}... [${value.length - options.maxStringLength} more characters]`;
+}
+
+function convertList(
+    items: Iterable<unknown>,
+    size: number,
+    options: Required<SafeSerializeOptions>,
+    depth: number,
+    ancestors: unknown[]
+): unknown[] {
+    const result: unknown[] = [];
+    for (const item of items) {
+        if (result.length >= options.maxArrayLength) {
+            break;
+        }
+        const converted = convert(item, options, depth + 1, ancestors);
+        // JSON turns undefined array items into null anyway, keep it explicit
+        result.push(converted === undefined ? null : converted);
+    }
+    if (size > options.maxArrayLength) {
+        result.push(`... ${size - options.maxArrayLength} more items`);
+    }
+    return result;
+}
+
+function convert(
+    value: unknown,
+    options: Required<SafeSerializeOptions>,
+    depth: number,
+    ancestors: unknown[]
+): unknown {
+    switch (typeof value) {
+        case 'string':
+            return truncateString(value, options);
+        case 'bigint':
+            return value.toString();
+        case 'symbol':
+            return value.toString();
+        case 'function':
+            return `[Function ${value.name || 'anonymous'}]`;
+        case 'number':
+            // JSON would turn these into null
+            return Number.isFinite(value) ? value : String(value);
+        case 'object':
+            break;
+        default:
+            return value;
+    }
+
+    if (value === null) {
+        return null;
+    }
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+    }
+    if (value instanceof RegExp) {
+        return value.toString();
+    }
+    if (ancestors.includes(value)) {
+        return '[Circular]';
+    }
+    if (Buffer.isBuffer(value)) {
+        return `[Buffer ${value.length} bytes: ${truncateString(value.toString('base64'), options)}]`;
+    }
+    if (value instanceof ArrayBuffer) {
+        return `[ArrayBuffer ${value.byteLength} bytes]`;
+    }
+
+    if (depth >= options.maxDepth) {
+        if (Array.isArray(value)) {
+            return `[Array(${value.length})]`;
+        }
+        return `[${value.constructor?.name || 'Object'}]`;
+    }
+
+    ancestors.push(value);
+    try {
+        if (value instanceof Error) {
+            return convert(serializeError(value), options, depth, ancestors);
+        }
+        if (Array.isArray(value)) {
+            return convertList(value, value.length, options, depth, ancestors);
+        }
+        if (ArrayBuffer.isView(value)) {
+            const items = Array.from(value as unknown as ArrayLike<number | bigint>);
+            return convertList(items, items.length, options, depth, ancestors);
+        }
+        if (value instanceof Set) {
+            return convertList(value, value.size, options, depth, ancestors);
+        }
+        if (value instanceof Map) {
+            const result: Record<string, unknown> = {};
+            let count = 0;
+            for (const [key, item] of value) {
+                if (count++ >= options.maxArrayLength) {
+                    result['...'] = `${value.size - options.maxArrayLength} more entries`;
+                    break;
+                }
+                result[typeof key === 'string' ? key : String(convert(key, options, depth + 1, ancestors))] =
+                    convert(item, options, depth + 1, ancestors);
+            }
+            return result;
+        }
+        if (typeof (value as any).toJSON === 'function') {
+            return convert((value as any).toJSON(), options, depth, ancestors);
+        }
+
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(value)) {
+            try {
+                result[key] = convert((value as any)[key], options, depth + 1, ancestors);
+            } catch {
+                // Throwing getters, e.g. on proxies or lazy ORM relations
+                result[key] = '[Unserializable]';
+            }
+        }
+        return result;
+    } catch {
+        return '[Unserializable]';
+    } finally {
+        ancestors.pop();
+    }
+}
+
+/**
+ * Convert a value to one JSON.stringify can always handle.
+ * Cycles become '[Circular]', BigInts strings, Dates ISO strings, Maps objects, Sets and typed arrays arrays,
+ * Buffers base64 strings and errors serializeError output. Values past the limits are replaced with markers.
+ *
+ * @param value - Any value, typically record meta
+ * @param options - Limits overriding those set with setSerializeOptions
+ * @returns A JSON-safe copy of the value
+ */
+export function toSerializable(value: unknown, options: SafeSerializeOptions = {}): unknown {
+    return convert(value, { ...defaults, ...options }, 0, []);
+}
+
+/**
+ * JSON.stringify that never throws, used by every built-in format and transport
+ *
+ * @example
+ * ```typescript
+ * const user = { id: 10n, tags: new Set(['admin']) };
+ * (user as any).self = user;
+ * safeStringify(user); // '{"id":"10","tags":["admin"],"self":"[Circular]"}'
+ * ```
+ */
+export function safeStringify(value: unknown, options: SafeSerializeOptions = {}): string {
+    return JSON.stringify(toSerializable(value, options)) ?? 'undefined';
+}
@@ -0,0 +1,270 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Logger, PipelineConfig } from './index';
+import type { LogLevel } from './levels';
+import { createLogger } from './logger';
+import type { LogRecord } from './record';
+import { memoryTransport, type MemoryTransport } from './transports/memory';
+import { safeStringify } from './serialize';
+import { realNow, testHooks } from './hooks';
+
+export interface TestLoggerOptions {
+    // Logger name, '' unless specified
+    name?: string;
+    // Minimum level kept, 'trace' unless specified
+    level?: LogLevel;
+    // Records kept, the oldest are dropped first. 10000 unless specified
+    maxRecords?: number;
+}
+
+export interface TestLogger {
+    logger: Logger;
+    // A config with a single pipeline feeding this test logger, for loggedProcedure and createLogger
+    config: PipelineConfig;
+    // Records kept so far, oldest first
+    readonly records: LogRecord[];
+    query: MemoryTransport['query'];
+    clear: () => void;
+}
+
+export interface LogCapture<T> {
+    // Records created while the callback ran, oldest first
+    records: LogRecord[];
+    result?: T;
+    // What the callback threw, if it did
+    error?: unknown;
+}
+
+export interface FakeClock {
+    // The time record timestamps are set to
+    now: () => Date;
+    // Move the clock forward by ms milliseconds
+    tick: (ms: number) => void;
+    set: (time: Date | number | string) => void;
+    // Go back to real timestamps
+    restore: () => void;
+}
+
+// Fields a record must have. Strings also match patterns, and meta matches partially
+export type LogExpectation = {
+    [K in keyof LogRecord]?: LogRecord[K] | (LogRecord[K] extends string | undefined ? RegExp : never);
+};
+
+// What the log matchers accept: records, a TestLogger, a LogCapture or a memoryTransport
+export type LogSource = LogRecord[] | { records: LogRecord[] } | Pick<MemoryTransport, 'query'>;
+
+// Records of the captureLogs calls the current async context runs in, innermost last
+const captures = new AsyncLocalStorage<LogRecord[][]>();
+
+testHooks.onRecord = record => {
+    for (const records of captures.getStore() ?? []) {
+        records.push(record);
+    }
+};
+
+/**
+ * Create a logger that keeps its records in memory, with a config for wiring the same capture
+ * into procedures.
+ *
+ * @param options - Name, minimum level and capacity
+ * @returns The logger, its config and the records kept
+ *
+ * @example
+ * ```typescript
+ * const logs = createTestLogger();
+ * const procedure = loggedProcedure(t.procedure, logs.config);
+ * // ... build a router with procedure.withLogger() and call it through createCaller
+ * expect(logs).toHaveLogged({ level: 'info', path: 'user.get' });
+ * ```
+ */
+export function createTestLogger(options: TestLoggerOptions = {}): TestLogger {
+    const { name = '', level = 'trace', maxRecords = 10000 } = options;
+    const memory = memoryTransport({ maxRecords, maxBytes: Infinity });
+    const config: PipelineConfig = { pipelines: [{ name: 'test', level, transport: memory }] };
+
+    return {
+        logger: createLogger(config, name),
+        config,
+        get records() {
+            return memory.query();
+        },
+        query: memory.query,
+        clear: memory.clear
+    };
+}
+
+/**
+ * Collect every record created by any logger while a callback runs, including records logged
+ * after awaits, in timers or by procedures it calls. Records are collected before redaction,
+ * sampling and dedupe. Concurrent captures only see records of their own callback.
+ *
+ * @param fn - The code to capture, sync or async
+ * @returns The records with the callback's result, or what it threw instead of rejecting
+ *
+ * @example
+ * ```typescript
+ * const { records, error } = await captureLogs(() => caller.user.get({ id: 'missing' }));
+ * expect(records).toHaveLogged({ level: 'error', message: /failed/ });
+ * ```
+ */
+export async function captureLogs<T>(fn: () => T | Promise<T>): Promise<LogCapture<T>> {
+    const records: LogRecord[] = [];
+    const outer = captures.getStore() ?? [];
+
+    try {
+        const result = await captures.run([...outer, records], fn);
+        return { records, result };
+    } catch (error) {
+        return { records, error };
+    }
+}
+
+/**
+ * Set the timestamp of new records to a fake time until restore() is called.
+ * Only record timestamps are affected, timers and durations keep using the real clock.
+ *
+ * @param start - Initial time, 2024-01-01T00:00:00.000Z unless specified
+ * @returns The clock
+ *
+ * @example
+ * ```typescript
+ * const clock = useFakeClock('2024-06-01T12:00:00Z');
+ * logger.info('first');
+ * clock.tick(1500);
+ * logger.info('second'); // 12:00:01.500
+ * clock.restore();
+ * ```
+ */
+export function useFakeClock(start: Date | number | string = '2024-01-01T00:00:00.000Z'): FakeClock {
+    let time = new Date(start).getTime();
+    const now = () => new Date(time);
+    testHooks.now = now;
+
+    return {
+        now,
+        tick: (ms: number) => {
+            time += ms;
+        },
+        set: (next: Date | number | string) => {
+            time = new Date(next).getTime();
+        },
+        restore: () => {
+            if (testHooks.now === now) {
+                testHooks.now = realNow;
+            }
+        }
+    };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function isAsymmetricMatcher(value: unknown): value is { asymmetricMatch: (actual: unknown) => boolean } {
+    return isObject(value) && typeof value.asymmetricMatch === 'function';
+}
+
+type Equals = (actual: unknown, expected: unknown) => boolean;
+
+const defaultEquals: Equals = (actual, expected) => isAsymmetricMatcher(expected)
+    ? expected.asymmetricMatch(actual)
+    : Object.is(actual, expected) || safeStringify(actual) === safeStringify(expected);
+
+// Patterns match strings, plain objects match the keys they list, and anything else must be equal
+function matchesValue(actual: unknown, expected: unknown, equals: Equals): boolean {
+    if (expected instanceof RegExp && typeof actual === 'string') {
+        expected.lastIndex = 0;
+        return expected.test(actual);
+    }
+    if (isObject(expected) && !Array.isArray(expected) && !isAsymmetricMatcher(expected)
+        && Object.getPrototypeOf(expected) === Object.prototype) {
+        return isObject(actual) && Object.keys(expected).every(key => matchesValue(actual[key], expected[key], equals));
+    }
+    return equals(actual, expected);
+}
+
+function toRecords(source: LogSource): LogRecord[] {
+    if (Array.isArray(source)) {
+        return source;
+    }
+    if ('records' in source) {
+        return source.records;
+    }
+    if (typeof source?.query === 'function') {
+        return source.query();
+    }
+    throw new Error('Expected log records, a test logger, a log capture or a memory transport');
+}
+
+function describeRecords(records: LogRecord[]): string {
+    if (records.length === 0) {
+        return 'No records were logged';
+    }
+    const lines = records.map(record => {
+        const name = record.name ? ` ${record.name}` : '';
+        const meta = record.meta === undefined ? '' : ` ${safeStringify(record.meta)}`;
+        return `  ${record.level}${name}: ${record.message}${meta}`;
+    });
+    return `Logged records:\n${lines.join('\n')}`;
+}
+
+function describeExpectation(expected: LogExpectation): string {
+    const fields = Object.entries(expected).map(([key, value]) =>
+        `${key}: ${value instanceof RegExp ? String(value) : safeStringify(value)}`
+    );
+    return `{ ${fields.join(', ')} }`;
+}
+
+interface MatcherContext {
+    isNot?: boolean;
+    equals?: Equals;
+}
+
+function countMatches(context: MatcherContext, source: LogSource, expected: LogExpectation): [LogRecord[], number] {
+    const records = toRecords(source);
+    const equals = context.equals ? context.equals.bind(context) : defaultEquals;
+    const count = records.filter(record => matchesValue(record, expected, equals)).length;
+    return [records, count];
+}
+
+/**
+ * Jest matchers for log assertions, registered automatically when a global expect is present.
+ * Register them by hand with `expect.extend(logMatchers)` for other runners.
+ */
+export const logMatchers = {
+    toHaveLogged(this: MatcherContext, received: LogSource, expected: LogExpectation) {
+        const [records, count] = countMatches(this, received, expected);
+        const pass = count > 0;
+        return {
+            pass,
+            message: () => pass
+                ? `Expected no record matching ${describeExpectation(expected)}, found ${count}\n\n${describeRecords(records)}`
+                : `Expected a record matching ${describeExpectation(expected)}\n\n${describeRecords(records)}`
+        };
+    },
+    toHaveLoggedTimes(this: MatcherContext, received: LogSource, expected: LogExpectation, times: number) {
+        const [records, count] = countMatches(this, received, expected);
+        const pass = count === times;
+        return {
+            pass,
+            message: () => pass
+                ? `Expected records matching ${describeExpectation(expected)} not to be logged ${times} times\n\n${describeRecords(records)}`
+                : `Expected ${times} records matching ${describeExpectation(expected)}, found ${count}\n\n${describeRecords(records)}`
+        };
+    }
+};
+
+const globalExpect = (globalThis as { expect?: { extend?: (matchers: object) => void } }).expect;
+if (typeof globalExpect?.extend === 'function') {
+    globalExpect.extend(logMatchers);
+}
+
+declare global {
+    namespace jest {
+        interface Matchers<R, T = {}> {
+            // The records include one matching every listed field, see LogExpectation
+            toHaveLogged(expected: LogExpectation): R;
+            // Exactly `times` records match
+            toHaveLoggedTimes(expected: LogExpectation, times: number): R;
+        }
+    }
+}
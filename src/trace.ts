@@ -0,0 +1,81 @@
+import type { LogRecord } from './record';
+import { getRequestContext } from './context';
+import { loadOpenTelemetry } from './otel';
+
+// W3C Trace Context of a record, from the active OpenTelemetry span or the request's traceparent header
+export interface TraceContext {
+    // 32 lowercase hex characters
+    traceId: string;
+    // 16 lowercase hex characters
+    spanId: string;
+    // Trace flags byte, 1 when the trace is sampled
+    traceFlags: number;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})(-.*)?$/;
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+
+/**
+ * Parse a W3C traceparent header, returning undefined if it is missing or malformed
+ *
+ * @example
+ * ```typescript
+ * parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+ * // { traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId: '00f067aa0ba902b7', traceFlags: 1 }
+ * ```
+ */
+export function parseTraceparent(header: string | undefined): TraceContext | undefined {
+    const match = header ? TRACEPARENT_PATTERN.exec(header.trim().toLowerCase()) : null;
+    if (!match) {
+        return undefined;
+    }
+
+    const [, version, traceId, spanId, flags, extra] = match;
+    // Version ff is forbidden, and version 00 has no trailing fields
+    if (version === 'ff' || (version === '00' && extra !== undefined)) {
+        return undefined;
+    }
+    if (traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+        return undefined;
+    }
+    return { traceId, spanId, traceFlags: parseInt(flags, 16) };
+}
+
+/**
+ * Format a trace context as a traceparent header, e.g. to propagate it to downstream services
+ */
+export function formatTraceparent(trace: TraceContext): string {
+    return `00-${trace.traceId}-${trace.spanId}-${trace.traceFlags.toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Get the current trace context.
+ * Uses the active span when `@opentelemetry/api` is installed, otherwise the traceparent header
+ * read by createRequestIdMiddleware.
+ */
+export function getTraceContext(): TraceContext | undefined {
+    const spanContext = loadOpenTelemetry()?.trace.getActiveSpan()?.spanContext();
+    if (spanContext && spanContext.traceId !== INVALID_TRACE_ID && spanContext.spanId !== INVALID_SPAN_ID) {
+        return {
+            traceId: spanContext.traceId,
+            spanId: spanContext.spanId,
+            traceFlags: spanContext.traceFlags
+        };
+    }
+    return getRequestContext()?.trace;
+}
+
+/**
+ * Trace fields of a record under the names log backends correlate on, empty for records outside a trace
+ */
+export function getTraceFields(record: LogRecord): { trace_id?: string; span_id?: string; trace_flags?: string } {
+    if (!record.traceId) {
+        return {};
+    }
+    return {
+        trace_id: record.traceId,
+        span_id: record.spanId,
+        trace_flags: record.traceFlags?.toString(16).padStart(2, '0')
+    };
+}
@@ -0,0 +1,109 @@
+import { defineTransport, toRecordTransport, type LogRecord, type LogTransport, type RecordTransport } from '../record';
+
+// What happens to a record logged while the queue is full
+export type OverflowPolicy = 'drop-oldest' | 'drop-newest' | 'block';
+
+export interface BufferOptions {
+    // Maximum records waiting for delivery, 1000 unless specified
+    maxQueue?: number;
+    // 'drop-oldest' unless specified. 'block' holds new records until there is room, up to maxBlocked
+    overflow?: OverflowPolicy;
+    // Records 'block' holds while the queue is full, maxQueue unless specified. Records past it are rejected
+    maxBlocked?: number;
+    // Records delivered at the same time, 1 unless specified
+    concurrency?: number;
+}
+
+interface QueueEntry {
+    record: LogRecord;
+    formatted: string;
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Wrap a transport with a bounded in-memory queue.
+ * Each record's promise settles once it is delivered, so dropped records and delivery failures
+ * reach the pipeline's fallback and onTransportError. `flush()` resolves when the queue is empty.
+ *
+ * @example
+ * ```typescript
+ * const transport = bufferedTransport(slowTransport, { maxQueue: 500, overflow: 'drop-newest' });
+ * ```
+ */
+export function bufferedTransport(transport: LogTransport, options: BufferOptions = {}): RecordTransport {
+    const { maxQueue = 1000, overflow = 'drop-oldest', concurrency = 1, maxBlocked = maxQueue } = options;
+    const deliver = toRecordTransport(transport);
+
+    const queue: QueueEntry[] = [];
+    const blocked: QueueEntry[] = [];
+    let active = 0;
+    let closed = false;
+    let idleWaiters: Array<() => void> = [];
+
+    const pump = () => {
+        while (active < concurrency && queue.length > 0) {
+            const entry = queue.shift()!;
+            if (blocked.length > 0) {
+                queue.push(blocked.shift()!);
+            }
+
+            active++;
+            Promise.resolve()
+                .then(() => deliver(entry.record, entry.formatted))
+                .then(entry.resolve, entry.reject)
+                .finally(() => {
+                    active--;
+                    pump();
+                });
+        }
+
+        if (active === 0 && queue.length === 0) {
+            const waiters = idleWaiters;
+            idleWaiters = [];
+            waiters.forEach(resolve => resolve());
+        }
+    };
+
+    const flush = async () => {
+        if (active > 0 || queue.length > 0) {
+            await new Promise<void>(resolve => idleWaiters.push(resolve));
+        }
+        await transport.flush?.();
+    };
+
+    return defineTransport((record, formatted) => new Promise<void>((resolve, reject) => {
+        if (closed) {
+            reject(new Error('Transport is closed'));
+            return;
+        }
+
+        const entry = { record, formatted, resolve, reject };
+        if (queue.length >= maxQueue) {
+            if (overflow === 'drop-newest') {
+                reject(new Error('Log queue is full, record dropped'));
+                return;
+            }
+            if (overflow === 'block') {
+                // Loggers don't wait on transports, so held records are bounded like the queue
+                if (blocked.length >= maxBlocked) {
+                    reject(new Error('Log queue is full, record dropped'));
+                } else {
+                    blocked.push(entry);
+                }
+                return;
+            }
+            queue.shift()!.reject(new Error('Log queue is full, record dropped'));
+        }
+
+        queue.push(entry);
+        pump();
+    }), {
+        flush,
+        close: async () => {
+            closed = true;
+            await flush();
+            await transport.close?.();
+        }
+    });
+}
@@ -1,131 +1,264 @@
-export const consoleTransport = (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    console.log(message, meta);
+import type { WriteStream } from 'fs';
+import type { LogLevel } from '../levels';
+import { defineTransport } from '../record';
+import { getTraceFields } from '../trace';
+import { safeStringify, toSerializable } from '../serialize';
+import { bufferedTransport, type BufferOptions } from './buffered';
+
+export * from './buffered';
+export * from './memory';
+export * from './rotating';
+
+// Level names used by each logging library
+const winstonLevels: Record<LogLevel, string> = {
+    trace: 'silly',
+    debug: 'debug',
+    info: 'info',
+    warn: 'warn',
+    error: 'error',
+    fatal: 'error'
+};
+
+const sentryLevels: Record<LogLevel, string> = {
+    trace: 'debug',
+    debug: 'debug',
+    info: 'info',
+    warn: 'warning',
+    error: 'error',
+    fatal: 'fatal'
 };
 
-export const fileTransport = (filename: string) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    const fs = require('fs');
-    fs.appendFileSync(filename, message + '\n');
+const datadogLevels: Record<LogLevel, string> = {
+    trace: 'debug',
+    debug: 'debug',
+    info: 'info',
+    warn: 'warn',
+    error: 'error',
+    fatal: 'error'
 };
 
-export const jsonTransport = (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    console.log(JSON.stringify({ timestamp: new Date().toISOString(), name, message, meta }));
+export const consoleTransport = defineTransport((record, formatted) => {
+    console.log(formatted, record.meta);
+});
+
+// File transport, appends through a non-blocking write stream opened on the first record
+export const fileTransport = (filename: string) => {
+    let stream: WriteStream | undefined;
+    let closed = false;
+    let lastWrite: Promise<void> = Promise.resolve();
+
+    const getStream = (): WriteStream => {
+        if (!stream) {
+            const fs = require('fs');
+            stream = fs.createWriteStream(filename, { flags: 'a' }) as WriteStream;
+            // Failures are reported through each write's callback
+            stream.on('error', () => undefined);
+        }
+        return stream;
+    };
+
+    const flush = () => lastWrite;
+
+    return defineTransport((record, formatted) => {
+        if (closed) {
+            return Promise.reject(new Error('Transport is closed'));
+        }
+
+        const write = new Promise<void>((resolve, reject) => {
+            getStream().write(formatted + '\n', error => (error ? reject(error) : resolve()));
+        });
+        lastWrite = write.catch(() => undefined);
+        return write;
+    }, {
+        flush,
+        close: async () => {
+            closed = true;
+            await flush();
+            if (stream) {
+                const current = stream;
+                stream = undefined;
+                await new Promise<void>(resolve => current.end(resolve));
+            }
+        }
+    });
 };
 
+export const jsonTransport = defineTransport((record, formatted) => {
+    console.log(safeStringify({
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        name: record.name,
+        message: formatted,
+        meta: record.meta,
+        sampleRate: record.sampleRate,
+        redactions: record.redactions,
+        event: record.event,
+        eventCode: record.eventCode,
+        requestId: record.requestId,
+        ...getTraceFields(record)
+    }));
+});
+
 // Winston transport
-export const winstonTransport = (winstonLogger: any) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
+export const winstonTransport = (winstonLogger: any) => defineTransport((record, formatted) => {
     winstonLogger.log({
-        level: 'info',
-        message,
-        procedure: name,
-        ...meta
+        level: winstonLevels[record.level],
+        message: formatted,
+        procedure: record.name,
+        requestId: record.requestId,
+        ...getTraceFields(record),
+        ...toSerializable(record.meta) as Record<string, any>
     });
-};
+});
 
-// Pino transport
-export const pinoTransport = (pinoLogger: any) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    pinoLogger.info({
-        message,
-        procedure: name,
-        ...meta
+// Pino transport, pino has a method for every level
+export const pinoTransport = (pinoLogger: any) => defineTransport((record, formatted) => {
+    pinoLogger[record.level]({
+        message: formatted,
+        procedure: record.name,
+        requestId: record.requestId,
+        ...getTraceFields(record),
+        ...toSerializable(record.meta) as Record<string, any>
     });
-};
+});
 
-// HTTP transport for external services
+// HTTP transport for external services, queued and flushed on shutdown. Failed requests are reported to the pipeline
 export const httpTransport = (url: string, options: {
     method?: string;
     headers?: Record<string, string>;
     timeout?: number;
-} = {}) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
+    buffer?: BufferOptions;
+} = {}) => bufferedTransport(defineTransport((record, formatted) => {
     const { method = 'POST', headers = {}, timeout = 5000 } = options;
 
     const payload = {
-        timestamp: new Date().toISOString(),
-        procedure: name,
-        message,
-        meta
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        procedure: record.name,
+        message: formatted,
+        meta: record.meta,
+        sampleRate: record.sampleRate,
+        redactions: record.redactions,
+        event: record.event,
+        eventCode: record.eventCode,
+        requestId: record.requestId,
+        ...getTraceFields(record)
     };
 
-    fetch(url, {
+    return fetch(url, {
         method,
         headers: {
             'Content-Type': 'application/json',
             ...headers
         },
-        body: JSON.stringify(payload),
+        body: safeStringify(payload),
         signal: AbortSignal.timeout(timeout)
-    }).catch(error => {
-        console.error('HTTP transport error:', error);
+    }).then(response => {
+        if (!response.ok) {
+            throw new Error(`HTTP transport request failed with status ${response.status}`);
+        }
     });
-};
+}), options.buffer);
 
 // Sentry transport
-export const sentryTransport = (sentry: any) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    sentry.captureMessage(message, {
-        level: 'info',
+export const sentryTransport = (sentry: any) => defineTransport((record, formatted) => {
+    sentry.captureMessage(formatted, {
+        level: sentryLevels[record.level],
         tags: {
-            procedure: name
+            procedure: record.name,
+            requestId: record.requestId,
+            ...getTraceFields(record)
         },
-        extra: meta
+        extra: toSerializable(record.meta)
     });
-};
+});
 
 // Datadog transport
-export const datadogTransport = (datadogLogger: any) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
-    datadogLogger.info(message, {
-        procedure: name,
-        ...meta
+export const datadogTransport = (datadogLogger: any) => defineTransport((record, formatted) => {
+    datadogLogger[datadogLevels[record.level]](formatted, {
+        procedure: record.name,
+        requestId: record.requestId,
+        ...getTraceFields(record),
+        ...toSerializable(record.meta) as Record<string, any>
     });
-};
+});
 
-// CloudWatch transport
-export const cloudWatchTransport = (cloudWatchLogs: any, logGroupName: string, logStreamName: string) =>
-    (name: string | undefined, message: string, meta?: Record<string, any>) => {
+// CloudWatch transport, queued and flushed on shutdown
+export const cloudWatchTransport = (
+    cloudWatchLogs: any,
+    logGroupName: string,
+    logStreamName: string,
+    options: { buffer?: BufferOptions } = {}
+) =>
+    bufferedTransport(defineTransport((record, formatted) => {
         const params = {
             logGroupName,
             logStreamName,
             logEvents: [{
-                timestamp: Date.now(),
-                message: JSON.stringify({
-                    procedure: name,
-                    message,
-                    meta
+                timestamp: record.timestamp.getTime(),
+                message: safeStringify({
+                    level: record.level,
+                    procedure: record.name,
+                    message: formatted,
+                    meta: record.meta,
+                    sampleRate: record.sampleRate,
+                    redactions: record.redactions,
+                    event: record.event,
+                    eventCode: record.eventCode,
+                    requestId: record.requestId,
+                    ...getTraceFields(record)
                 })
             }]
         };
 
-        cloudWatchLogs.putLogEvents(params).catch((error: any) => {
-            console.error('CloudWatch transport error:', error);
-        });
-    };
+        return cloudWatchLogs.putLogEvents(params);
+    }), options.buffer);
 
-// Elasticsearch transport
-export const elasticsearchTransport = (client: any, index: string) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
+// Elasticsearch transport, queued and flushed on shutdown
+export const elasticsearchTransport = (
+    client: any,
+    index: string,
+    options: { buffer?: BufferOptions } = {}
+) => bufferedTransport(defineTransport((record, formatted) => {
     const document = {
-        timestamp: new Date().toISOString(),
-        procedure: name,
-        message,
-        meta
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        procedure: record.name,
+        message: formatted,
+        meta: record.meta,
+        sampleRate: record.sampleRate,
+        redactions: record.redactions,
+        event: record.event,
+        eventCode: record.eventCode,
+        requestId: record.requestId,
+        ...getTraceFields(record)
     };
 
-    client.index({
+    return client.index({
         index,
-        body: document
-    }).catch((error: any) => {
-        console.error('Elasticsearch transport error:', error);
+        body: toSerializable(document)
     });
-};
+}), options.buffer);
 
 // Redis transport for log aggregation
-export const redisTransport = (redisClient: any, key: string, ttl?: number) => (name: string | undefined, message: string, meta?: Record<string, any>) => {
+export const redisTransport = (redisClient: any, key: string, ttl?: number) => defineTransport((record, formatted) => {
     const logEntry = {
-        timestamp: new Date().toISOString(),
-        procedure: name,
-        message,
-        meta
+        timestamp: record.timestamp.toISOString(),
+        level: record.level,
+        procedure: record.name,
+        message: formatted,
+        meta: record.meta,
+        sampleRate: record.sampleRate,
+        redactions: record.redactions,
+        event: record.event,
+        eventCode: record.eventCode,
+        requestId: record.requestId,
+        ...getTraceFields(record)
     };
 
-    redisClient.lpush(key, JSON.stringify(logEntry));
-    if (ttl) {
-        redisClient.expire(key, ttl);
-    }
-}; 
\ No newline at end of file
+    const pushed = redisClient.lpush(key, safeStringify(logEntry));
+    const expired = ttl ? redisClient.expire(key, ttl) : undefined;
+
+    // Promise-based clients report failures through the pipeline
+    return Promise.all([pushed, expired]).then(() => undefined);
+});
@@ -0,0 +1,146 @@
+import { LOG_LEVEL_SEVERITY, type LogLevel } from '../levels';
+import { defineTransport, type LogRecord, type RecordTransport } from '../record';
+import { matchGlob } from '../glob';
+import { safeStringify } from '../serialize';
+
+export interface MemoryTransportOptions {
+    // Records kept, the oldest are dropped first. 1000 unless specified
+    maxRecords?: number;
+    // Bytes kept, counting each record's message and serialized meta. 1 MiB unless specified
+    maxBytes?: number;
+}
+
+export interface MemoryQuery {
+    // Minimum severity
+    level?: LogLevel;
+    // Logger name glob such as 'user.*'
+    name?: string;
+    // Time range, inclusive
+    since?: Date | number;
+    until?: Date | number;
+    requestId?: string;
+    // Case-insensitive substring, or a pattern, matched against the message and serialized meta
+    text?: string | RegExp;
+    // Only the newest matching records
+    limit?: number;
+}
+
+export type MemoryTransport = RecordTransport & {
+    // Matching records, oldest first
+    query: (query?: MemoryQuery) => LogRecord[];
+    clear: () => void;
+    // Records and bytes currently kept
+    readonly count: number;
+    readonly bytes: number;
+};
+
+interface MemoryEntry {
+    record: LogRecord;
+    // Message and serialized meta, searched by text queries
+    text: string;
+    size: number;
+}
+
+function toTime(value: Date | number): number {
+    return typeof value === 'number' ? value : value.getTime();
+}
+
+/**
+ * Keep the most recent records in a ring buffer bounded by count and bytes, for "recent logs" views,
+ * support tooling and tests. Each call creates its own buffer.
+ *
+ * @param options - Count and byte bounds
+ * @returns A transport with query() and clear()
+ *
+ * @example
+ * ```typescript
+ * const recent = memoryTransport({ maxRecords: 500 });
+ * const config = { pipelines: [{ name: 'recent', level: 'debug', transport: recent }] };
+ *
+ * recent.query({ level: 'warn', name: 'billing.*', since: Date.now() - 60_000, text: 'timeout' });
+ * ```
+ */
+export function memoryTransport(options: MemoryTransportOptions = {}): MemoryTransport {
+    const { maxRecords = 1000, maxBytes = 1024 * 1024 } = options;
+
+    const slots: Array<MemoryEntry | undefined> = new Array(maxRecords);
+    // Index of the oldest entry
+    let head = 0;
+    let count = 0;
+    let bytes = 0;
+
+    const dropOldest = () => {
+        bytes -= slots[head]!.size;
+        slots[head] = undefined;
+        head = (head + 1) % maxRecords;
+        count--;
+    };
+
+    const transport = defineTransport(record => {
+        const text = record.meta === undefined ? record.message : `${record.message} ${safeStringify(record.meta)}`;
+        const size = Buffer.byteLength(text);
+        if (size > maxBytes || maxRecords < 1) {
+            return;
+        }
+
+        if (count === maxRecords) {
+            dropOldest();
+        }
+        while (bytes + size > maxBytes) {
+            dropOldest();
+        }
+
+        slots[(head + count) % maxRecords] = { record, text, size };
+        count++;
+        bytes += size;
+    });
+
+    const matches = (entry: MemoryEntry, query: MemoryQuery): boolean => {
+        const { record } = entry;
+        if (query.level !== undefined && record.severity < LOG_LEVEL_SEVERITY[query.level]) {
+            return false;
+        }
+        if (query.name !== undefined && !matchGlob(record.name, query.name)) {
+            return false;
+        }
+        const time = record.timestamp.getTime();
+        if ((query.since !== undefined && time < toTime(query.since)) || (query.until !== undefined && time > toTime(query.until))) {
+            return false;
+        }
+        if (query.requestId !== undefined && record.requestId !== query.requestId) {
+            return false;
+        }
+        if (query.text instanceof RegExp) {
+            query.text.lastIndex = 0;
+            return query.text.test(entry.text);
+        }
+        return query.text === undefined || entry.text.toLowerCase().includes(query.text.toLowerCase());
+    };
+
+    // Getters, as Object.assign would copy their current values
+    Object.defineProperties(transport, {
+        count: { get: () => count, enumerable: true },
+        bytes: { get: () => bytes, enumerable: true }
+    });
+
+    return Object.assign(transport as MemoryTransport, {
+        query: (query: MemoryQuery = {}) => {
+            const { limit = Infinity } = query;
+            const results: LogRecord[] = [];
+            // Newest first, so limit keeps the most recent matches
+            for (let i = count - 1; i >= 0 && results.length < limit; i--) {
+                const entry = slots[(head + i) % maxRecords]!;
+                if (matches(entry, query)) {
+                    results.push(entry.record);
+                }
+            }
+            return results.reverse();
+        },
+        clear: () => {
+            slots.fill(undefined);
+            head = 0;
+            count = 0;
+            bytes = 0;
+        }
+    });
+}
@@ -0,0 +1,247 @@
+import type { WriteStream } from 'fs';
+import { defineTransport, type RecordTransport } from '../record';
+
+export type RotationInterval = 'hourly' | 'daily';
+
+export interface RotatingFileOptions {
+    // Rotate before a record would take the file past this many bytes
+    maxSize?: number;
+    // Rotate when a record falls in a later UTC hour or day than the file's first record
+    interval?: RotationInterval;
+    // Gzip rotated files, false unless specified
+    compress?: boolean;
+    // Rotated files kept, the oldest are deleted first
+    maxFiles?: number;
+    // Milliseconds a rotated file is kept after its last write
+    maxAge?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Start of the UTC hour or day containing a time
+function periodStart(time: number, interval: RotationInterval): number {
+    const unit = interval === 'hourly' ? HOUR_MS : DAY_MS;
+    return Math.floor(time / unit) * unit;
+}
+
+// 2024-06-01 for daily and size-only rotation, 2024-06-01-13 for hourly rotation
+function formatStamp(time: number, interval: RotationInterval | undefined): string {
+    const iso = new Date(time).toISOString();
+    return interval === 'hourly' ? `${iso.slice(0, 10)}-${iso.slice(11, 13)}` : iso.slice(0, 10);
+}
+
+/**
+ * Append records to a file through a non-blocking write stream, rotating it by size and/or time.
+ * Rotated files are renamed with the UTC date (and hour) of their first record, such as
+ * `app-2024-06-01.log`, with `.1`, `.2`... added when several share a date, and are optionally gzipped.
+ * Writes, rotations and retention run in order, so concurrent records never straddle a rotation.
+ * Compression and retention run in the background; `flush()` and `close()` wait for them and
+ * reject with their failures.
+ *
+ * @param filename - Path of the active log file, its directory must exist
+ * @param options - Rotation triggers, compression and retention
+ * @returns A transport with flush() and close()
+ *
+ * @example
+ * ```typescript
+ * const transport = rotatingFileTransport('logs/app.log', {
+ *   maxSize: 10 * 1024 * 1024,
+ *   interval: 'daily',
+ *   compress: true,
+ *   maxFiles: 14
+ * });
+ * ```
+ */
+export function rotatingFileTransport(filename: string, options: RotatingFileOptions = {}): RecordTransport {
+    const { maxSize, interval, compress = false, maxFiles, maxAge } = options;
+    const fs = require('fs') as typeof import('fs');
+    const path = require('path') as typeof import('path');
+
+    const directory = path.dirname(filename);
+    const extension = path.extname(filename);
+    const base = path.basename(filename, extension);
+    // Rotated files of this transport, with their stamp and counter
+    const rotatedPattern = new RegExp(
+        `^${escapeRegExp(base)}-(\\d{4}-\\d{2}-\\d{2}(?:-\\d{2})?)(?:\\.(\\d+))?${escapeRegExp(extension)}(?:\\.gz)?$`
+    );
+
+    let stream: WriteStream | undefined;
+    // Bytes in the active file, and the time of its first record (its last write, for a file that already existed)
+    let size = 0;
+    let startedAt: number | undefined;
+    let closed = false;
+
+    // Opening, rotating and writing happen one record at a time
+    let queue: Promise<void> = Promise.resolve();
+    let lastWrite: Promise<void> = Promise.resolve();
+    // Compression and retention of rotated files
+    let maintenance: Promise<void> = Promise.resolve();
+    let maintenanceErrors: unknown[] = [];
+
+    const open = async () => {
+        try {
+            const stats = await fs.promises.stat(filename);
+            size = stats.size;
+            startedAt = stats.size > 0 ? stats.mtimeMs : undefined;
+        } catch {
+            size = 0;
+            startedAt = undefined;
+        }
+        stream = fs.createWriteStream(filename, { flags: 'a' });
+        // Failures are reported through each write's callback
+        stream.on('error', () => undefined);
+    };
+
+    const endStream = async () => {
+        if (stream) {
+            const current = stream;
+            stream = undefined;
+            await new Promise<void>(resolve => current.end(resolve));
+        }
+    };
+
+    const exists = (file: string) => fs.promises.access(file).then(() => true, () => false);
+
+    const nextRotatedName = async (stamp: string): Promise<string> => {
+        for (let counter = 0; ; counter++) {
+            const name = counter === 0 ? `${base}-${stamp}${extension}` : `${base}-${stamp}.${counter}${extension}`;
+            const candidate = path.join(directory, name);
+            if (!(await exists(candidate)) && !(await exists(`${candidate}.gz`))) {
+                return candidate;
+            }
+        }
+    };
+
+    const gzip = async (file: string) => {
+        const { pipeline } = require('stream/promises') as typeof import('stream/promises');
+        const { createGzip } = require('zlib') as typeof import('zlib');
+        const { mtime } = await fs.promises.stat(file);
+        await pipeline(fs.createReadStream(file), createGzip(), fs.createWriteStream(`${file}.gz`));
+        // Keep the last write time for maxAge
+        await fs.promises.utimes(`${file}.gz`, mtime, mtime);
+        await fs.promises.unlink(file);
+    };
+
+    const prune = async () => {
+        const rotated = (await fs.promises.readdir(directory))
+            .map(name => ({ name, match: rotatedPattern.exec(name) }))
+            .filter((entry): entry is { name: string; match: RegExpExecArray } => entry.match !== null)
+            .map(({ name, match }) => ({ file: path.join(directory, name), stamp: match[1], counter: Number(match[2] ?? 0) }))
+            // Newest first
+            .sort((a, b) => a.stamp === b.stamp ? b.counter - a.counter : (a.stamp < b.stamp ? 1 : -1));
+
+        const now = Date.now();
+        for (const [index, { file }] of rotated.entries()) {
+            let expired = maxFiles !== undefined && index >= maxFiles;
+            if (!expired && maxAge !== undefined) {
+                const { mtimeMs } = await fs.promises.stat(file);
+                expired = now - mtimeMs > maxAge;
+            }
+            if (expired) {
+                await fs.promises.unlink(file);
+            }
+        }
+    };
+
+    const rotate = async () => {
+        await endStream();
+        const target = await nextRotatedName(formatStamp(startedAt!, interval));
+        await fs.promises.rename(filename, target);
+        size = 0;
+        startedAt = undefined;
+
+        maintenance = maintenance
+            .then(async () => {
+                if (compress) {
+                    await gzip(target);
+                }
+                if (maxFiles !== undefined || maxAge !== undefined) {
+                    await prune();
+                }
+            })
+            .catch(error => {
+                maintenanceErrors.push(error);
+            });
+    };
+
+    const shouldRotate = (bytes: number, time: number): boolean => {
+        if (size === 0 || startedAt === undefined) {
+            return false;
+        }
+        if (maxSize !== undefined && size + bytes > maxSize) {
+            return true;
+        }
+        return interval !== undefined && periodStart(time, interval) > periodStart(startedAt, interval);
+    };
+
+    const write = (line: string, bytes: number, time: number): Promise<void> => {
+        size += bytes;
+        startedAt = startedAt ?? time;
+        return new Promise<void>((resolve, reject) => {
+            stream!.write(line, error => (error ? reject(error) : resolve()));
+        });
+    };
+
+    const settleMaintenance = async () => {
+        await maintenance;
+        if (maintenanceErrors.length > 0) {
+            const errors = maintenanceErrors;
+            maintenanceErrors = [];
+            // Shaped like an AggregateError, which the ES2020 lib doesn't declare
+            throw errors.length === 1 ? errors[0] : Object.assign(new Error('Log file rotation failed'), { errors });
+        }
+    };
+
+    const flush = async () => {
+        await queue;
+        await lastWrite;
+        await settleMaintenance();
+    };
+
+    return defineTransport((record, formatted) => {
+        if (closed) {
+            return Promise.reject(new Error('Transport is closed'));
+        }
+
+        const line = formatted + '\n';
+        const bytes = Buffer.byteLength(line);
+        const time = record.timestamp.getTime();
+
+        // Resolves once the write is issued, so the next record doesn't wait for it to complete
+        const step = queue.then(async () => {
+            if (!stream) {
+                await open();
+            }
+            if (shouldRotate(bytes, time)) {
+                try {
+                    await rotate();
+                } finally {
+                    if (!stream) {
+                        await open();
+                    }
+                }
+            }
+            return { written: write(line, bytes, time) };
+        });
+        queue = step.then(() => undefined, () => undefined);
+
+        const written = step.then(({ written }) => written);
+        const previous = lastWrite;
+        lastWrite = written.then(() => previous, () => previous);
+        return written;
+    }, {
+        flush,
+        close: async () => {
+            closed = true;
+            await queue;
+            await lastWrite;
+            await endStream();
+            await settleMaintenance();
+        }
+    });
+}
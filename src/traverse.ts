@@ -0,0 +1,11 @@
+/**
+ * Whether redaction and scrubbing walk into a value: arrays and plain objects.
+ * Class instances such as Dates, Maps and Buffers are left as they are.
+ */
+export function isTraversable(value: unknown): value is Record<string, unknown> | unknown[] {
+    if (value === null || typeof value !== 'object') {
+        return false;
+    }
+    const prototype = Object.getPrototypeOf(value);
+    return Array.isArray(value) || prototype === Object.prototype || prototype === null;
+}
@@ -1,12 +1,91 @@
 import { z } from 'zod';
 import type { LoggerPipeline, PipelineConfig } from './index';
+import { LOG_LEVEL_SEVERITY } from './levels';
+import { toRecordFormat, toRecordTransport, type LogRecord } from './record';
 
 // Validation schemas
-const LogLevelSchema = z.enum(['error', 'warn', 'info', 'debug']);
+const LogLevelSchema = z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']);
+
+const LevelMatchSchema = z.enum(['threshold', 'exact']);
+
+const GlobListSchema = z.union([z.string().min(1), z.array(z.string().min(1))]);
+
+const MetaMatcherSchema = z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.instanceof(RegExp),
+    z.object({ exists: z.boolean() }),
+    z.function()
+]);
+
+const RecordMatcherSchema = z.object({
+    name: GlobListSchema.optional(),
+    path: GlobListSchema.optional(),
+    meta: z.record(MetaMatcherSchema).optional()
+}).strict();
+
+const PipelineFilterSchema = z.object({
+    include: RecordMatcherSchema.optional(),
+    exclude: RecordMatcherSchema.optional(),
+    predicate: z.function().args(z.any()).returns(z.boolean()).optional()
+}).strict();
+
+const SamplingRuleSchema = z.object({
+    rate: z.number().min(0, 'Sample rate must be between 0 and 1').max(1, 'Sample rate must be between 0 and 1').optional(),
+    by: z.enum(['random', 'requestId']).optional(),
+    perSecond: z.number().int().positive('Records per second must be positive').optional(),
+    key: z.union([z.enum(['message', 'name']), z.function()]).optional()
+});
+
+const SamplingConfigSchema = SamplingRuleSchema.extend({
+    levels: z.record(LogLevelSchema, z.union([SamplingRuleSchema.strict(), z.literal(false)])).optional(),
+    alwaysKeep: z.union([LogLevelSchema, z.literal(false)]).optional(),
+    maxKeys: z.number().int().positive().optional()
+}).strict();
+
+const DedupeConfigSchema = z.object({
+    windowMs: z.number().positive('Dedupe window must be positive').optional(),
+    keys: z.array(z.string()).optional(),
+    burst: z.number().int().positive('Burst must be positive').optional(),
+    maxKeys: z.number().int().positive().optional()
+}).strict();
+
+const RedactRuleSchema = z.union([z.string().min(1), z.instanceof(RegExp)]);
+
+const RedactConfigSchema = z.object({
+    paths: z.array(RedactRuleSchema),
+    censor: z.union([z.string(), z.function()]).optional(),
+    remove: z.boolean().optional(),
+    caseSensitive: z.boolean().optional()
+}).strict();
+
+const ScrubConfigSchema = z.union([
+    z.literal(true),
+    z.object({
+        detectors: z.array(z.union([
+            z.enum(['email', 'creditCard', 'iban', 'phone', 'ipv4', 'ipv6', 'jwt', 'bearer']),
+            z.object({
+                name: z.string().min(1),
+                pattern: z.instanceof(RegExp),
+                validate: z.function().optional()
+            }).strict()
+        ])).optional(),
+        replacement: z.union([z.string(), z.function()]).optional()
+    }).strict()
+]);
 
 const LoggerPipelineSchema = z.object({
     name: z.string().min(1, 'Pipeline name is required'),
     level: LogLevelSchema.optional(),
+    levelMatch: LevelMatchSchema.optional(),
+    filter: PipelineFilterSchema.optional(),
+    sampling: SamplingConfigSchema.optional(),
+    dedupe: DedupeConfigSchema.optional(),
+    redact: RedactConfigSchema.optional(),
+    scrub: ScrubConfigSchema.optional(),
+    // Legacy formats and transports take (name, message, meta), record-based ones come from defineFormat/defineTransport.
+    // Both shapes pass here, testFormat and testTransport call each with the signature it expects
     format: z.function()
         .args(z.string().optional(), z.string(), z.record(z.any()).optional())
         .returns(z.string())
@@ -14,12 +93,17 @@ const LoggerPipelineSchema = z.object({
     transport: z.function()
         .args(z.string().optional(), z.string(), z.record(z.any()).optional())
         .returns(z.void())
-        .describe('Transport function must accept name, message, and optional meta parameters')
+        .describe('Transport function must accept name, message, and optional meta parameters, or a LogRecord from defineTransport'),
+    fallback: z.function().optional()
 });
 
 const PipelineConfigSchema = z.object({
     pipelines: z.array(LoggerPipelineSchema).min(1, 'At least one pipeline is required'),
-    defaultLevel: LogLevelSchema.optional()
+    defaultLevel: LogLevelSchema.optional(),
+    levelMatch: LevelMatchSchema.optional(),
+    onTransportError: z.function().optional(),
+    nameTemplate: z.string().min(1).optional(),
+    nameVariables: z.record(z.string()).optional()
 });
 
 // Performance configuration validation
@@ -38,9 +122,16 @@ const MiddlewareConfigSchema = z.object({
     logErrors: z.boolean().optional(),
     includeHeaders: z.boolean().optional(),
     includeBody: z.boolean().optional(),
-    maskSensitiveFields: z.array(z.string()).optional(),
+    maskSensitiveFields: z.array(RedactRuleSchema).optional(),
     performanceMonitoring: z.boolean().optional(),
-    slowQueryThreshold: z.number().positive().optional()
+    slowQueryThreshold: z.number().positive().optional(),
+    levels: z.object({
+        request: LogLevelSchema.optional(),
+        response: LogLevelSchema.optional(),
+        slow: LogLevelSchema.optional(),
+        error: LogLevelSchema.optional()
+    }).optional(),
+    sampleRate: z.number().min(0).max(1).optional()
 });
 
 // Rate limiting configuration validation
@@ -192,6 +283,18 @@ export function validateErrorHandlingConfig(config: any): ValidationResult {
     }
 }
 
+// Sample record used to exercise formats and transports
+function createTestRecord(): LogRecord {
+    return {
+        level: 'info',
+        severity: LOG_LEVEL_SEVERITY.info,
+        timestamp: new Date(),
+        name: 'test',
+        message: 'test message',
+        meta: { test: true }
+    };
+}
+
 /**
  * Test transport function
  */
@@ -206,12 +309,14 @@ export function testTransport(transport: any): ValidationResult {
         }
 
         // Test transport function signature
-        const testName = 'test';
-        const testMessage = 'test message';
-        const testMeta = { test: true };
+        const testRecord = createTestRecord();
 
         try {
-            transport(testName, testMessage, testMeta);
+            const result = toRecordTransport(transport)(testRecord, testRecord.message);
+            if (result && typeof result.then === 'function') {
+                // Asynchronous delivery failures can't be reported by this synchronous check
+                result.then(undefined, () => undefined);
+            }
             return { isValid: true, errors: [] };
         } catch (error) {
             return {
@@ -245,12 +350,8 @@ export function testFormat(format: any): ValidationResult {
         }
 
         // Test format function signature
-        const testName = 'test';
-        const testMessage = 'test message';
-        const testMeta = { test: true };
-
         try {
-            const result = format(testName, testMessage, testMeta);
+            const result = toRecordFormat(format)(createTestRecord());
             if (typeof result !== 'string') {
                 return {
                     isValid: false,